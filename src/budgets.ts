@@ -0,0 +1,94 @@
+/**
+ * budgets — hard limits on a supervision run.
+ *
+ * Budgets come from `/supervise --max-runs N --max-steers N --max-minutes N --max-cost USD <outcome>`
+ * or `budgets` in .pi/supervisor-config.json (flags win per field). When one is used up,
+ * supervision stops with a "budget-exhausted" verdict instead of steering forever.
+ */
+
+import type { SupervisionBudgets, SupervisorState } from "./types.js";
+import { deliveredSteers } from "./state.js";
+
+const FLAG_KEYS: Record<string, keyof SupervisionBudgets> = {
+  "max-runs": "maxRuns",
+  "max-steers": "maxSteers",
+  "max-minutes": "maxMinutes",
+  "max-cost": "maxCost",
+};
+
+/** Keep only positive numeric budget fields from untrusted input (config file, flags). */
+export function parseBudgets(raw: unknown): SupervisionBudgets {
+  const budgets: SupervisionBudgets = {};
+  if (!raw || typeof raw !== "object") return budgets;
+  for (const key of Object.values(FLAG_KEYS)) {
+    const value = (raw as Record<string, unknown>)[key];
+    if (typeof value === "number" && Number.isFinite(value) && value > 0) budgets[key] = value;
+  }
+  return budgets;
+}
+
+/** Read --max-runs / --max-steers / --max-minutes / --max-cost from parsed /supervise flags (last occurrence wins). */
+export function budgetsFromFlags(flags: Record<string, string[]>): SupervisionBudgets {
+  const raw: Record<string, number> = {};
+  for (const [flag, key] of Object.entries(FLAG_KEYS)) {
+    const values = flags[flag];
+    if (values?.length) raw[key] = Number(values[values.length - 1]);
+  }
+  return parseBudgets(raw);
+}
+
+export interface ExhaustedBudget {
+  budget: keyof SupervisionBudgets;
+  label: string;             // e.g. "run budget (10 agent runs)"
+}
+
+/**
+ * The first budget that is used up, or null while there is room for another steer.
+ * Checked before every steer (agent_end) and before every mid-run analysis (turn_end).
+ */
+export function exhaustedBudget(state: SupervisorState, now = Date.now()): ExhaustedBudget | null {
+  const { maxRuns, maxSteers, maxMinutes, maxCost } = state.budgets;
+  if (maxMinutes !== undefined && now - state.startedAt >= maxMinutes * 60_000) {
+    return { budget: "maxMinutes", label: `time budget (${maxMinutes} min)` };
+  }
+  if (maxRuns !== undefined && state.turnCount >= maxRuns) {
+    return { budget: "maxRuns", label: `run budget (${maxRuns} agent runs)` };
+  }
+  if (maxSteers !== undefined && deliveredSteers(state) >= maxSteers) {
+    return { budget: "maxSteers", label: `steer budget (${maxSteers} steers)` };
+  }
+  if (maxCost !== undefined && state.usage.cost >= maxCost) {
+    return { budget: "maxCost", label: `cost budget ($${maxCost})` };
+  }
+  return null;
+}
+
+/**
+ * A budget already overrun when a run ends: out of time or money, or a run beyond the run budget.
+ * Checked at agent_end before the supervisor is asked, so a spent budget buys no further model
+ * calls, judges or verification. Reaching — not passing — the run or steer budget is left to
+ * exhaustedBudget, since the last allowed run may still be judged done.
+ */
+export function overspentBudget(state: SupervisorState, now = Date.now()): ExhaustedBudget | null {
+  const { maxRuns, maxMinutes, maxCost } = state.budgets;
+  if (maxMinutes !== undefined && now - state.startedAt >= maxMinutes * 60_000) {
+    return { budget: "maxMinutes", label: `time budget (${maxMinutes} min)` };
+  }
+  if (maxCost !== undefined && state.usage.cost >= maxCost) {
+    return { budget: "maxCost", label: `cost budget ($${maxCost})` };
+  }
+  if (maxRuns !== undefined && state.turnCount > maxRuns) {
+    return { budget: "maxRuns", label: `run budget (${maxRuns} agent runs)` };
+  }
+  return null;
+}
+
+/** Short human-readable summary, e.g. "10 runs · 5 steers · 30 min · $0.50". Empty when unlimited. */
+export function describeBudgets(budgets: SupervisionBudgets): string {
+  return [
+    budgets.maxRuns !== undefined ? `${budgets.maxRuns} runs` : "",
+    budgets.maxSteers !== undefined ? `${budgets.maxSteers} steers` : "",
+    budgets.maxMinutes !== undefined ? `${budgets.maxMinutes} min` : "",
+    budgets.maxCost !== undefined ? `$${budgets.maxCost}` : "",
+  ].filter(Boolean).join(" · ");
+}
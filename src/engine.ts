@@ -5,17 +5,47 @@
  * constructs prompts, and calls the supervisor model.
  *
  * System prompt discovery order (mirrors pi's SYSTEM.md convention):
- *   1. <cwd>/.pi/SUPERVISOR.md   — project-local
- *   2. ~/.pi/agent/SUPERVISOR.md — global
- *   3. Built-in template         — fallback
+ *   1. --prompt <name>           — .pi/supervisors/<name>.md, then ~/.pi/agent/supervisors/<name>.md
+ *   2. "promptPath" in config    — explicit file
+ *   3. <cwd>/.pi/SUPERVISOR.md   — project-local
+ *   4. ~/.pi/agent/SUPERVISOR.md — global
+ *   5. Built-in template         — fallback
+ * A <name>.user.md beside any of these replaces the built-in user prompt, found in the same order.
+ * Custom prompts are templates: see prompt-template.ts.
  */
 
 import { existsSync, readFileSync } from "node:fs";
-import { join } from "node:path";
+import { join, resolve } from "node:path";
 import { homedir } from "node:os";
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
-import type { ConversationMessage, SteeringDecision, SupervisorState } from "./types.js";
-import { callSupervisorModel } from "./model-client.js";
+import type {
+  AcceptanceCriterion,
+  CallUsage,
+  ConversationMessage,
+  EscalationTrigger,
+  JudgeVote,
+  ResponseRepair,
+  SensitivityProfile,
+  SteerDisposition,
+  SteeringDecision,
+  SupervisorState,
+} from "./types.js";
+import { callModelWithRetries, callSupervisorModel, type SupervisorModelClient } from "./model-client.js";
+import {
+  DEFAULT_ESCALATION_BAND,
+  DEFAULT_RETRIES,
+  DEFAULT_TIMEOUT_MS,
+  loadWorkspaceConfig,
+  type WorkspaceConfig,
+  type WorkspaceModelConfig,
+} from "./workspace-config.js";
+import { createWorkspaceTools, DEFAULT_TOOL_BUDGET, WORKSPACE_TOOL_NAMES } from "./workspace-tools.js";
+import { loadRulesFile, matchRules, ruleMessage } from "./rules.js";
+import { explainProfile, resolveProfile } from "./profiles.js";
+import { deliveredSteers } from "./state.js";
+import { findPromptVariant, readTemplate, renderTemplate, userTemplatePath, type PromptVariables } from "./prompt-template.js";
+import { buildGitContext } from "./git-context.js";
+import { combineVotes, describeVotes, strongestDissent } from "./judges.js";
 
 // ---- System prompt loading ----
 
@@ -64,34 +94,118 @@ Response schema (strict JSON):
   "action": "continue" | "steer" | "done",
   "message": "...",     // Required when action === "steer"
   "reasoning": "...",   // Brief internal reasoning
-  "confidence": 0.85    // Float 0-1
+  "confidence": 0.85,   // Float 0-1
+  "criteria": [{ "id": 1, "status": "met", "note": "..." }]  // Acceptance criteria whose status changed, if any
 }`;
 
 /**
- * Load the supervisor system prompt.
- * Checks .pi/SUPERVISOR.md (project) then ~/.pi/agent/SUPERVISOR.md (global),
- * falling back to the built-in template if neither exists.
- * Returns both the prompt and its source path (or "built-in").
+ * Custom prompt files in discovery order: a named variant (`--prompt <name>` → .pi/supervisors/<name>.md
+ * or ~/.pi/agent/supervisors/<name>.md), a configured `promptPath` (relative to the project, ~ expanded),
+ * .pi/SUPERVISOR.md (project), then ~/.pi/agent/SUPERVISOR.md (global). Paths may not exist.
  */
-export function loadSystemPrompt(cwd: string): { prompt: string; source: string } {
-  const projectPath = join(cwd, CONFIG_DIR, SUPERVISOR_MD);
-  if (existsSync(projectPath)) {
-    return { prompt: readFileSync(projectPath, "utf-8").trim(), source: projectPath };
+function promptCandidates(cwd: string, variant: string | undefined, config: WorkspaceConfig): string[] {
+  const candidates: string[] = [];
+  const variantPath = variant ? findPromptVariant(cwd, variant) : null;
+  if (variantPath) candidates.push(variantPath);
+
+  const { promptPath } = config;
+  if (promptPath) {
+    candidates.push(promptPath.startsWith("~/") ? join(homedir(), promptPath.slice(2)) : resolve(cwd, promptPath));
   }
 
-  const globalPath = join(GLOBAL_AGENT_DIR, SUPERVISOR_MD);
-  if (existsSync(globalPath)) {
-    return { prompt: readFileSync(globalPath, "utf-8").trim(), source: globalPath };
+  candidates.push(join(cwd, CONFIG_DIR, SUPERVISOR_MD), join(GLOBAL_AGENT_DIR, SUPERVISOR_MD));
+  return candidates;
+}
+
+/**
+ * Load the supervisor system prompt template: the first existing prompt file, falling back to the
+ * built-in template. Custom prompts have their `{{> partial}}` includes expanded; variables are
+ * filled in by analyze(). Returns both the prompt and its source path (or "built-in").
+ */
+export function loadSystemPrompt(
+  cwd: string,
+  variant?: string,
+  config: WorkspaceConfig = loadWorkspaceConfig(cwd)
+): { prompt: string; source: string } {
+  const path = promptCandidates(cwd, variant, config).find((p) => existsSync(p));
+  return path
+    ? { prompt: readTemplate(path).trim(), source: path }
+    : { prompt: BUILTIN_SYSTEM_PROMPT, source: "built-in" };
+}
+
+/**
+ * Load the user-prompt template: the first existing `<name>.user.md` beside a prompt file, in the
+ * same order as the system prompt. Null when there is none — the built-in user prompt is used.
+ */
+export function loadUserPrompt(
+  cwd: string,
+  variant?: string,
+  config: WorkspaceConfig = loadWorkspaceConfig(cwd)
+): { prompt: string; source: string } | null {
+  const path = promptCandidates(cwd, variant, config).map(userTemplatePath).find((p) => existsSync(p));
+  return path ? { prompt: readTemplate(path).trim(), source: path } : null;
+}
+
+// ---- Acceptance criteria ----
+
+const MAX_CRITERIA = 8;
+
+const CRITERIA_SYSTEM_PROMPT = `You break a desired outcome for a coding task into acceptance criteria.
+Each criterion is one short, independently verifiable statement (e.g. "POST /users returns 201 with the new id").
+Cover everything the outcome asks for and nothing more. Use between 1 and ${MAX_CRITERIA} criteria.
+
+Respond ONLY with a JSON array of strings — no prose, no markdown fences.`;
+
+/**
+ * Ask the supervisor model to split the outcome into acceptance criteria, with the same timeout,
+ * retries and fallback models as an analysis. Returns an empty list on any failure — supervision
+ * then falls back to judging the outcome as a whole. `usage` holds one entry per model call, to be
+ * counted once supervision has started.
+ */
+export async function deriveCriteria(
+  ctx: ExtensionContext,
+  provider: string,
+  modelId: string,
+  outcome: string,
+  signal?: AbortSignal,
+  config: WorkspaceConfig = loadWorkspaceConfig(ctx.cwd)
+): Promise<{ criteria: string[]; usage: CallUsage[] }> {
+  const usage: CallUsage[] = [];
+  const result = await callModelWithRetries(
+    ctx, provider, modelId, CRITERIA_SYSTEM_PROMPT, `DESIRED OUTCOME:\n${outcome}`, signal, undefined,
+    { onUsage: (u) => usage.push(u), timeoutMs: config.timeoutMs ?? DEFAULT_TIMEOUT_MS },
+    { retries: config.retries ?? DEFAULT_RETRIES, fallbacks: fallbacksFor(config, provider, modelId) }
+  );
+  return { criteria: result.ok ? parseCriteriaList(result.text) : [], usage };
+}
+
+/** The configured fallback models, without the one being called. */
+function fallbacksFor(config: WorkspaceConfig, provider: string, modelId: string): WorkspaceModelConfig[] {
+  return (config.fallbackModels ?? []).filter((m) => m.provider !== provider || m.modelId !== modelId);
+}
+
+function parseCriteriaList(text: string): string[] {
+  const jsonStr = text.match(/\[[\s\S]*\]/)?.[0];
+  if (!jsonStr) return [];
+  try {
+    const parsed = JSON.parse(jsonStr);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((c): c is string => typeof c === "string" && c.trim().length > 0)
+      .map((c) => c.trim())
+      .slice(0, MAX_CRITERIA);
+  } catch {
+    return [];
   }
+}
 
-  return { prompt: BUILTIN_SYSTEM_PROMPT, source: "built-in" };
+function formatCriteria(state: SupervisorState): string {
+  return state.criteria
+    .map((c) => `[${c.id}] (${c.status}) ${c.text}${c.note ? ` — ${c.note}` : ""}`)
+    .join("\n");
 }
 
-const MESSAGE_LIMITS: Record<string, number> = {
-  low: 6,
-  medium: 12,
-  high: 20,
-};
+const MAX_ARG_DISPLAY = 120;
 
 /** Extract the most recent compaction or branch summary from the session branch, if any. */
 function extractCompactionSummary(ctx: ExtensionContext): string | null {
@@ -107,26 +221,163 @@ function extractCompactionSummary(ctx: ExtensionContext): string | null {
   return summary;
 }
 
-/** Extract recent user/assistant messages from the session branch. */
-function buildSnapshot(ctx: ExtensionContext, limit: number): ConversationMessage[] {
-  const messages: ConversationMessage[] = [];
+const CHARS_PER_TOKEN = 4;            // rough estimate; exact token counts are not worth a tokenizer here
+const MAX_WINDOW_SHARE = 0.5;         // the snapshot never takes more than this of the model's context window
+const MAX_MESSAGE_SHARE = 0.25;       // longer messages are elided in the middle
+const MAX_LATEST_SHARE = 0.5;         // …except the newest, which may take up to this much
+const MIN_PARTIAL_CHARS = 200;        // don't squeeze a message into less than this when the budget runs out
 
-  for (const entry of ctx.sessionManager.getBranch()) {
-    if (entry.type !== "message") continue;
-    const msg = (entry as any).message;
-    if (!msg) continue;
+interface ToolLimits {
+  calls: number;        // most recent tool entries kept
+  outputChars: number;  // per result
+}
+
+/** A budgeted view of the conversation, oldest first. */
+interface Snapshot {
+  messages: ConversationMessage[];
+  omitted: boolean;     // messages between the original request and the recent ones were left out
+}
+
+/**
+ * Character budget for the snapshot: the profile's share of the supervisor model's context window,
+ * or its fixed token allowance when the model (and so its window) is not in the registry.
+ */
+function snapshotBudget(ctx: ExtensionContext, state: SupervisorState, profile: SensitivityProfile): number {
+  const window = ctx.modelRegistry.find(state.provider, state.modelId)?.contextWindow;
+  const tokens = window ? Math.floor(window * Math.min(profile.snapshotShare, MAX_WINDOW_SHARE)) : profile.snapshotTokens;
+  return tokens * CHARS_PER_TOKEN;
+}
+
+/**
+ * Convert one session message into snapshot messages, in order. Callers walk the branch backwards,
+ * so tool results are met before their calls: `results` holds them (by toolCallId) until then.
+ */
+function toSnapshotMessages(msg: any, tools: ToolLimits | undefined, results: Map<string, string>): ConversationMessage[] {
+  if (msg.role === "user") {
+    const content = extractText(msg.content);
+    return content ? [{ role: "user", content }] : [];
+  }
+  if (msg.role === "assistant") {
+    const out: ConversationMessage[] = [];
+    const content = extractAssistantText(msg.content);
+    if (content) out.push({ role: "assistant", content });
+    if (tools && Array.isArray(msg.content)) {
+      for (const block of msg.content) {
+        if (block.type !== "toolCall") continue;
+        const result = results.get(block.id);
+        results.delete(block.id);
+        out.push({ role: "tool", content: `${formatToolCall(block.name, block.arguments)} ${result ?? "… (no result yet)"}` });
+      }
+    }
+    return out;
+  }
+  if (msg.role === "toolResult" && tools) {
+    results.set(msg.toolCallId, formatToolResult(msg.content, msg.isError === true, tools.outputChars));
+  }
+  return [];
+}
 
-    if (msg.role === "user") {
-      const content = extractText(msg.content);
-      if (content) messages.push({ role: "user", content });
-    } else if (msg.role === "assistant") {
-      const content = extractAssistantText(msg.content);
-      if (content) messages.push({ role: "assistant", content });
+/**
+ * Build the supervisor's view of the conversation within `budget` characters.
+ * The original request (the first user message) and the newest message are always kept; the rest is
+ * filled newest-first until the budget runs out. Messages longer than a share of the budget are elided
+ * in the middle. The branch is walked backwards and stops early, so cost tracks the budget, not the session length.
+ * With `tools` set, tool calls and their results are interleaved as compact "tool" entries.
+ */
+function buildSnapshot(ctx: ExtensionContext, budget: number, tools?: ToolLimits): Snapshot {
+  const branch = ctx.sessionManager.getBranch();
+  const messageOf = (i: number) => (branch[i].type === "message" ? (branch[i] as any).message : undefined);
+
+  let firstUser = 0;
+  while (firstUser < branch.length && messageOf(firstUser)?.role !== "user") firstUser++;
+  if (firstUser === branch.length) firstUser = -1;
+  const request = firstUser >= 0 ? toSnapshotMessages(messageOf(firstUser), undefined, new Map())[0] : undefined;
+
+  const perMessage = Math.floor(budget * MAX_MESSAGE_SHARE);
+  const head = request ? { role: request.role, content: elide(request.content, perMessage) } : undefined;
+  let left = budget - (head?.content.length ?? 0);
+  let toolsLeft = tools?.calls ?? 0;
+  const recent: ConversationMessage[] = [];  // newest first
+  const results = new Map<string, string>();
+  let i = branch.length - 1;
+
+  walk: for (; i > firstUser; i--) {
+    const msg = messageOf(i);
+    if (!msg) continue;
+    const converted = toSnapshotMessages(msg, tools, results);
+    for (let j = converted.length - 1; j >= 0; j--) {
+      const m = converted[j];
+      if (m.role === "tool" && toolsLeft-- <= 0) continue;
+      const room = recent.length === 0 ? Math.floor(budget * MAX_LATEST_SHARE) : Math.min(perMessage, left);
+      if (m.content.length > room && room < MIN_PARTIAL_CHARS) break walk;
+      const content = elide(m.content, room);
+      recent.push({ role: m.role, content });
+      left -= content.length;
     }
   }
 
-  // Return the most recent N messages
-  return messages.slice(-limit);
+  return {
+    messages: [...(head ? [head] : []), ...recent.reverse()],
+    omitted: i > firstUser,
+  };
+}
+
+/** Untruncated messages of the current run — everything after the last user message, tool activity included. */
+function currentRunMessages(ctx: ExtensionContext): ConversationMessage[] {
+  const branch = ctx.sessionManager.getBranch();
+  const tools = { calls: Infinity, outputChars: Infinity };
+  const results = new Map<string, string>();
+  const run: ConversationMessage[] = [];  // newest first
+  for (let i = branch.length - 1; i >= 0; i--) {
+    if (branch[i].type !== "message") continue;
+    const msg = (branch[i] as any).message;
+    if (msg?.role === "user") break;
+    if (msg) run.push(...toSnapshotMessages(msg, tools, results).reverse());
+  }
+  return run.reverse();
+}
+
+/** One-line call summary: tool name plus its most telling argument. */
+function formatToolCall(name: string, args: unknown): string {
+  const a = (args ?? {}) as Record<string, unknown>;
+  const pick = (key: string) => (typeof a[key] === "string" ? (a[key] as string) : undefined);
+  let key: string | undefined;
+  switch (name) {
+    case "bash":
+      key = pick("command");
+      break;
+    case "read":
+    case "edit":
+    case "write":
+    case "ls":
+      key = pick("path");
+      break;
+    case "grep":
+    case "find":
+      key = [pick("pattern"), pick("path")].filter(Boolean).join(" in ") || undefined;
+      break;
+  }
+  if (key === undefined) {
+    const json = JSON.stringify(a);
+    key = json === "{}" ? "" : json;
+  }
+  const shown = elide(key.replace(/\s+/g, " ").trim(), MAX_ARG_DISPLAY);
+  return shown ? `${name} ${shown}` : name;
+}
+
+/** Result summary: ✓/✗ flag plus the (truncated) text output. */
+function formatToolResult(content: unknown, isError: boolean, maxChars: number): string {
+  const output = extractText(content);
+  const flag = isError ? "✗ error" : "✓";
+  return output ? `${flag}\n${elide(output, maxChars)}` : flag;
+}
+
+/** Shorten text to at most `max` chars, keeping the start and (mostly) the end — errors tend to be at the bottom. */
+function elide(text: string, max: number): string {
+  if (text.length <= max) return text;
+  const head = Math.floor(max / 3);
+  const tail = max - head - 3;
+  return `${text.slice(0, head)}\n…\n${text.slice(text.length - tail)}`;
 }
 
 function extractText(content: unknown): string {
@@ -149,56 +400,122 @@ function extractAssistantText(content: unknown): string {
   return textParts.join("\n").trim();
 }
 
-/** Build the user-facing prompt for the supervisor LLM. */
-function buildUserPrompt(
+const DISPOSITION_NOTES: Record<SteerDisposition, string> = {
+  approved: "",
+  edited: " (edited by the user before sending)",
+  rejected: " (REJECTED by the user — not sent)",
+  blocked: " (guardrail blocked the tool call — the agent saw this as the tool's error)",
+};
+
+/** The last few steers, numbered, with how the user handled each. */
+function formatInterventions(state: SupervisorState): string {
+  if (state.interventions.length === 0) return "None yet.";
+  return state.interventions
+    .slice(-5)
+    .map((iv, i) => `[${i + 1}] Turn ${iv.turnCount}: "${iv.message}"${DISPOSITION_NOTES[iv.disposition ?? "approved"]}`)
+    .join("\n");
+}
+
+const SNAPSHOT_LABELS: Record<ConversationMessage["role"], string> = {
+  user: "USER",
+  assistant: "ASSISTANT",
+  tool: "TOOL",
+};
+
+/** Per-analysis context for the user prompt — also the extra template variables. */
+type UserPromptParts = Pick<
+  PromptVariables,
+  "conversation" | "summary" | "gitContext" | "agentInstructions" | "stagnation" | "workspaceTools"
+>;
+
+function userPromptParts(
   state: SupervisorState,
-  snapshot: ConversationMessage[],
+  snapshot: Snapshot,
   agentIsIdle: boolean,
   stagnating: boolean,
-  compactionSummary: string | null
-): string {
-  const interventionHistory =
-    state.interventions.length === 0
-      ? "None yet."
-      : state.interventions
-          .slice(-5)
-          .map((iv, i) => `[${i + 1}] Turn ${iv.turnCount}: "${iv.message}"`)
-          .join("\n");
-
-  const conversationText =
-    snapshot.length === 0
-      ? "(No conversation yet)"
-      : snapshot
-          .map((m) => `${m.role === "user" ? "USER" : "ASSISTANT"}: ${m.content}`)
-          .join("\n\n---\n\n");
-
-  const agentStatus = agentIsIdle
-    ? `AGENT STATUS: IDLE — the agent has finished its turn and is now waiting for user input.
+  compactionSummary: string | null,
+  toolBudget: number | null,
+  gitContext: string | null
+): UserPromptParts {
+  const entries = snapshot.messages.map((m) => `${SNAPSHOT_LABELS[m.role]}: ${m.content}`);
+  if (snapshot.omitted) entries.splice(1, 0, "(… earlier messages omitted …)");
+
+  return {
+    conversation: entries.length === 0 ? "(No conversation yet)" : entries.join("\n\n---\n\n"),
+    summary: compactionSummary ?? "",
+    gitContext: gitContext ?? "",
+    agentInstructions: agentIsIdle
+      ? `AGENT STATUS: IDLE — the agent has finished its turn and is now waiting for user input.
 You MUST return "done" or "steer". Returning "continue" here means the agent stays idle forever.`
-    : `AGENT STATUS: WORKING — the agent is actively processing. Only intervene if clearly off track.`;
-
-  const stagnationWarning = stagnating
-    ? `\n⚠ STAGNATION: The supervisor has sent ${state.interventions.length} steering messages with no "done" verdict.
+      : `AGENT STATUS: WORKING — the agent is actively processing. Only intervene if clearly off track.`,
+    stagnation: stagnating
+      ? `⚠ STAGNATION: The supervisor has sent ${deliveredSteers(state)} steering messages with no "done" verdict.
 The agent is making diminishing improvements. Apply a lenient standard:
 - If the core goal is substantially achieved (≥80%), return "done".
 - Only return "steer" if a CRITICAL piece is still missing — not minor polish.
 - Prefer stopping over looping forever on perfection.`
+      : "",
+    workspaceTools: toolBudget
+      ? `WORKSPACE TOOLS: You can inspect the repository read-only with ${WORKSPACE_TOOL_NAMES.join(", ")} (at most ${toolBudget} calls).
+Use them to check the agent's claims before deciding — e.g. that a file exists, a test was added, or the diff matches what was described.
+Your final message must still be the JSON decision only.`
+      : "",
+  };
+}
+
+/** Build the built-in user-facing prompt for the supervisor LLM. */
+function buildUserPrompt(
+  state: SupervisorState,
+  parts: UserPromptParts,
+  snapshot: Snapshot,
+  profile: SensitivityProfile
+): string {
+  const interventionHistory = formatInterventions(state);
+  const stagnationWarning = parts.stagnation ? `\n${parts.stagnation}` : "";
+
+  const criteriaSection =
+    state.criteria.length > 0
+      ? `ACCEPTANCE CRITERIA (id, current status, text):
+${formatCriteria(state)}
+Report every criterion whose status changed in "criteria" (statuses: pending, in-progress, met, blocked; add a note when blocked).
+"done" is only accepted once every criterion is "met".
+
+`
+      : "";
+
+  const toolNote = snapshot.messages.some((m) => m.role === "tool")
+    ? "; TOOL entries summarize a tool call and its result, ✗ marks a failed call"
+    : "";
+
+  const toolsSection = parts.workspaceTools ? `${parts.workspaceTools}\n\n` : "";
+
+  const gitSection = parts.gitContext
+    ? `REPOSITORY STATE (git — what actually changed, regardless of what the agent says):
+${parts.gitContext}
+Compare the agent's claims with these changes. A "done" claim with no relevant files changed is a red flag.
+
+`
     : "";
 
-  const summarySection = compactionSummary
-    ? `CONVERSATION SUMMARY (earlier history, before recent messages):\n${compactionSummary}\n\n`
+  // Custom profiles behave like the built-in level they extend
+  const sensitivitySection = profile.name === profile.base
+    ? profile.name
+    : `${profile.name} — custom profile, judge as "${profile.base}" (${profile.description})`;
+
+  const summarySection = parts.summary
+    ? `CONVERSATION SUMMARY (earlier history, before recent messages):\n${parts.summary}\n\n`
     : "";
 
   return `DESIRED OUTCOME:
 ${state.outcome}
 
-SENSITIVITY: ${state.sensitivity}
-(low = check only at end of each run, steer if seriously off track; medium = also check every 3rd tool cycle mid-run, steer on clear drift; high = check every tool cycle, steer proactively)
+SENSITIVITY: ${sensitivitySection}
+(${explainProfile(profile)})
 
-${agentStatus}${stagnationWarning}
+${parts.agentInstructions}${stagnationWarning}
 
-${summarySection}RECENT CONVERSATION (last ${snapshot.length} messages):
-${conversationText}
+${criteriaSection}${toolsSection}${gitSection}${summarySection}CONVERSATION (the original request, then the most recent messages; long ones elided with "…"${toolNote}):
+${parts.conversation}
 
 PREVIOUS INTERVENTIONS BY YOU:
 ${interventionHistory}
@@ -209,9 +526,61 @@ ${state.outcome}
 Has this outcome been fully achieved? Analyze and respond with JSON only.`;
 }
 
+/** Why a primary decision should be re-asked of the escalation model, or null when it can stand. */
+function escalationTrigger(decision: SteeringDecision, band: [number, number]): EscalationTrigger | null {
+  if (decision.error) return null;
+  if (decision.action === "done") return "done";
+  if (decision.confidence >= band[0] && decision.confidence <= band[1]) return "uncertain";
+  return null;
+}
+
+/** Both prompts for one analysis, as the supervisor and every judge see them. */
+async function buildPrompts(
+  ctx: ExtensionContext,
+  state: SupervisorState,
+  agentIsIdle: boolean,
+  stagnating: boolean,
+  config: WorkspaceConfig,
+  signal?: AbortSignal
+): Promise<{ systemPrompt: string; userPrompt: string; toolBudget: number | null }> {
+  const profile = resolveProfile(state.sensitivity, config.profiles);
+  const toolLimits = config.snapshotMode === "tools"
+    ? { calls: profile.snapshotToolCalls, outputChars: profile.toolOutputChars }
+    : undefined;
+  const snapshot = buildSnapshot(ctx, snapshotBudget(ctx, state, profile), toolLimits);
+  const compactionSummary = extractCompactionSummary(ctx);
+  const toolBudget = config.workspaceTools ? config.toolBudget ?? DEFAULT_TOOL_BUDGET : null;
+  const gitContext = config.gitContext && config.gitContext !== "off"
+    ? await buildGitContext(ctx.cwd, state.baseCommit, config.gitContext, signal)
+    : null;
+  const parts = userPromptParts(state, snapshot, agentIsIdle, stagnating, compactionSummary, toolBudget, gitContext);
+
+  const vars: PromptVariables = {
+    outcome: state.outcome,
+    sensitivity: state.sensitivity,
+    agentStatus: agentIsIdle ? "idle" : "working",
+    interventions: formatInterventions(state),
+    criteria: state.criteria.length > 0 ? formatCriteria(state) : "None.",
+    turn: String(state.turnCount),
+    model: `${state.provider}/${state.modelId}`,
+    ...parts,
+  };
+  const { prompt: template, source } = loadSystemPrompt(ctx.cwd, state.prompt, config);
+  const systemPrompt = source === "built-in" ? template : renderTemplate(template, vars);
+  const userTemplate = loadUserPrompt(ctx.cwd, state.prompt, config);
+  const userPrompt = userTemplate
+    ? renderTemplate(userTemplate.prompt, vars)
+    : buildUserPrompt(state, parts, snapshot, profile);
+  return { systemPrompt, userPrompt, toolBudget };
+}
+
 /**
  * Analyze the current conversation and return a steering decision.
- * Falls back to { action: "steer" } when the agent is idle to prevent it from staying stuck.
+ * With an `escalationModel` configured, "done", uncertain and stagnation calls are decided by it
+ * and the decision's `tier` says which model spoke. `client` replaces the model call, e.g. in replays.
+ * Callers that already hold the workspace config pass it as `config`, so a check reads it only once.
+ * When no model can be reached the decision is a no-op { action: "continue" } with `error` set —
+ * callers report the failure rather than acting on it.
  */
 export async function analyze(
   ctx: ExtensionContext,
@@ -219,21 +588,169 @@ export async function analyze(
   agentIsIdle: boolean,
   stagnating: boolean,
   signal?: AbortSignal,
-  onDelta?: (accumulated: string) => void
+  onDelta?: (accumulated: string) => void,
+  onUsage?: (usage: CallUsage) => void,
+  client: SupervisorModelClient = callSupervisorModel,
+  config: WorkspaceConfig = loadWorkspaceConfig(ctx.cwd)
 ): Promise<SteeringDecision> {
-  const { prompt: systemPrompt } = loadSystemPrompt(ctx.cwd);
 
-  const limit = MESSAGE_LIMITS[state.sensitivity] ?? 12;
-  const snapshot = buildSnapshot(ctx, limit);
-  const compactionSummary = extractCompactionSummary(ctx);
-  const userPrompt = buildUserPrompt(state, snapshot, agentIsIdle, stagnating, compactionSummary);
+  // Deterministic rules first: a matching "steer" rule can decide without the model
+  const rules = [...loadRulesFile(ctx.cwd), ...(config.rules ?? [])];
+  const run = rules.length > 0 ? currentRunMessages(ctx) : [];
+  const steerHit = matchRules(rules, run, "steer")[0];
+  if (steerHit?.rule.skipModel) {
+    return {
+      action: "steer",
+      message: ruleMessage(steerHit),
+      reasoning: `Rule "${steerHit.rule.id}" matched: ${steerHit.excerpt}`,
+      confidence: 1,
+      rule: steerHit.rule.id,
+    };
+  }
 
-  try {
-    return await callSupervisorModel(ctx, state.provider, state.modelId, systemPrompt, userPrompt, signal, onDelta);
-  } catch {
-    // When idle and analysis fails, nudge rather than silently do nothing
-    return agentIsIdle
-      ? { action: "steer", message: "Please continue working toward the goal.", reasoning: "Analysis error", confidence: 0 }
-      : { action: "continue", reasoning: "Analysis error", confidence: 0 };
+  const { systemPrompt, userPrompt, toolBudget } = await buildPrompts(ctx, state, agentIsIdle, stagnating, config, signal);
+  const tools = toolBudget ? createWorkspaceTools(ctx.cwd, toolBudget) : undefined;
+
+  const retries = config.retries ?? DEFAULT_RETRIES;
+  const repairs: ResponseRepair[] = [];
+  const call = async (provider: string, modelId: string, fallbacks: WorkspaceModelConfig[]): Promise<SteeringDecision> => {
+    try {
+      const result = await client(ctx, provider, modelId, systemPrompt, userPrompt, signal, onDelta, {
+        tools,
+        onUsage,
+        timeoutMs: config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      }, { retries, fallbacks });
+      if (result.repair) repairs.push({ ...result.repair, model: result.model });
+      return result;
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      return { action: "continue", reasoning: `Analysis error — ${error}`, confidence: 0, error };
+    }
+  };
+  const primary = () => call(state.provider, state.modelId, fallbacksFor(config, state.provider, state.modelId));
+
+  // Two tiers: the primary model handles routine checks; "done", uncertain verdicts and
+  // stagnation go to the escalation model. If it fails, the primary decision stands.
+  const escalation = config.escalationModel
+    && (config.escalationModel.provider !== state.provider || config.escalationModel.modelId !== state.modelId)
+    ? config.escalationModel
+    : undefined;
+  let decision: SteeringDecision;
+  if (!escalation) {
+    decision = await primary();
+  } else if (stagnating) {
+    const escalated = await call(escalation.provider, escalation.modelId, []);
+    decision = escalated.error
+      ? { ...(await primary()), tier: "primary" }
+      : { ...escalated, tier: "escalation", escalation: "stagnation" };
+  } else {
+    const first = await primary();
+    const why = escalationTrigger(first, config.escalationBand ?? DEFAULT_ESCALATION_BAND);
+    const escalated = why ? await call(escalation.provider, escalation.modelId, []) : undefined;
+    decision = why && escalated && !escalated.error
+      ? { ...escalated, tier: "escalation", escalation: why }
+      : { ...first, tier: "primary" };
+  }
+  if (repairs.length > 0) decision = { ...decision, repairs };
+  if (decision.error) return decision;
+
+  // Rules overrule the model: a steer rule that still wants the model's view, then "done" blockers
+  if (steerHit) {
+    return {
+      ...decision,
+      action: "steer",
+      message: steerHit.rule.message ?? (decision.action === "steer" && decision.message ? decision.message : ruleMessage(steerHit)),
+      reasoning: `Rule "${steerHit.rule.id}" matched: ${steerHit.excerpt}. ${decision.reasoning}`.trim(),
+      confidence: 1,
+      rule: steerHit.rule.id,
+    };
+  }
+  const doneBlocker = decision.action === "done" ? matchRules(rules, run, "forbid-done")[0] : undefined;
+  if (doneBlocker) {
+    return {
+      ...decision,
+      action: "steer",
+      message: ruleMessage(doneBlocker),
+      reasoning: `Rule "${doneBlocker.rule.id}" forbids done: ${doneBlocker.excerpt}. ${decision.reasoning}`.trim(),
+      confidence: 1,
+      rule: doneBlocker.rule.id,
+    };
+  }
+  return decision;
+}
+
+/**
+ * "done" means every acceptance criterion is met. A done verdict that leaves criteria open
+ * is turned into a steer naming them — unless stagnating, where the lenient verdict wins.
+ */
+export function gateDoneOnCriteria(
+  decision: SteeringDecision,
+  open: AcceptanceCriterion[],
+  stagnating: boolean
+): SteeringDecision {
+  if (decision.action !== "done" || open.length === 0 || stagnating) return decision;
+  const list = open.map((c) => `[${c.id}] ${c.text}`).join("; ");
+  return {
+    ...decision,
+    action: "steer",
+    message: `Not done yet — these acceptance criteria are still open: ${list}. Finish them before wrapping up.`,
+    reasoning: `${decision.reasoning} (done rejected: ${open.length} criteria open)`.trim(),
+  };
+}
+
+/**
+ * Ask the configured judges, in parallel, whether a "done" holds up, and combine their votes under
+ * `judgeRule`. Without judges the decision is returned unchanged. A rejected "done" becomes a steer
+ * carrying the most confident dissent; the panel is attached to the result either way.
+ */
+export async function judgeDone(
+  ctx: ExtensionContext,
+  state: SupervisorState,
+  decision: SteeringDecision,
+  stagnating: boolean,
+  signal?: AbortSignal,
+  onUsage?: (usage: CallUsage) => void,
+  config: WorkspaceConfig = loadWorkspaceConfig(ctx.cwd)
+): Promise<SteeringDecision> {
+  const judges = config.judges ?? [];
+  if (decision.action !== "done" || judges.length === 0) return decision;
+
+  const rule = config.judgeRule ?? "majority";
+  const { systemPrompt, userPrompt, toolBudget } = await buildPrompts(ctx, state, true, stagnating, config, signal);
+  const votes = await Promise.all(judges.map(async ({ provider, modelId }): Promise<JudgeVote> => {
+    const model = `${provider}/${modelId}`;
+    try {
+      const vote = await callSupervisorModel(ctx, provider, modelId, systemPrompt, userPrompt, signal, undefined, {
+        tools: toolBudget ? createWorkspaceTools(ctx.cwd, toolBudget) : undefined,
+        onUsage,
+        timeoutMs: config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      }, { retries: config.retries ?? DEFAULT_RETRIES, fallbacks: [] });
+      if (vote.error) return { model, vote: "abstain", confidence: 0, reasoning: vote.error };
+      return {
+        model,
+        vote: vote.action === "done" ? "done" : "not-done",
+        confidence: vote.confidence,
+        reasoning: vote.reasoning,
+        message: vote.action === "steer" ? vote.message : undefined,
+        repair: vote.repair ? { ...vote.repair, model } : undefined,
+      };
+    } catch (err) {
+      return { model, vote: "abstain", confidence: 0, reasoning: err instanceof Error ? err.message : String(err) };
+    }
+  }));
+
+  const panel = { rule, accepted: combineVotes(rule, votes), votes };
+  const tally = describeVotes(votes);
+  if (panel.accepted) {
+    return { ...decision, reasoning: `${decision.reasoning} (judges: ${tally}, ${rule})`.trim(), judges: panel };
   }
+  const dissent = strongestDissent(votes);
+  return {
+    ...decision,
+    action: "steer",
+    message: dissent?.message ?? `Not done yet — ${dissent?.reasoning ?? "the review panel disagreed"}. Address this before finishing.`,
+    reasoning: `Judges rejected done (${tally}, ${rule}): ${dissent?.reasoning ?? ""}`.trim(),
+    confidence: dissent?.confidence ?? decision.confidence,
+    judges: panel,
+  };
 }
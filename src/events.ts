@@ -0,0 +1,58 @@
+/**
+ * events — the supervisor's public API for other extensions, on pi's shared event bus (`pi.events`).
+ *
+ * Lifecycle events are emitted on the "supervisor:*" channels listed in SUPERVISOR_EVENTS; payload
+ * types are exported from types.ts. The current state can be read at any time with a
+ * "supervisor:query" request, answered synchronously:
+ *
+ *   onSupervisorEvent(pi.events, "supervisor:steer-sent", (e) => notifyPhone(e.intervention.message));
+ *   const snapshot = querySupervisor(pi.events);   // null when the supervisor is not loaded
+ */
+
+import type { EventBus } from "@mariozechner/pi-coding-agent";
+import type { SupervisorEventMap, SupervisorEventName, SupervisorQuery, SupervisorSnapshot } from "./types.js";
+
+export const SUPERVISOR_EVENTS: Record<SupervisorEventName, string> = {
+  "supervisor:started": "Supervision began",
+  "supervisor:stopped": "Supervision ended — achieved, stopped, budget or stagnated",
+  "supervisor:analysis-started": "The supervisor model is about to analyze the conversation",
+  "supervisor:decision": "An analysis finished, with the full decision",
+  "supervisor:steer-sent": "A steering message reached the agent",
+  "supervisor:achieved": "The outcome was judged done",
+};
+
+export const SUPERVISOR_QUERY = "supervisor:query";
+
+/** Emit a supervisor event. The payload is copied so listeners cannot change supervisor state. */
+export function emitSupervisorEvent<K extends SupervisorEventName>(
+  events: EventBus,
+  name: K,
+  payload: SupervisorEventMap[K]
+): void {
+  events.emit(name, structuredClone(payload));
+}
+
+/** Subscribe to one supervisor event with its typed payload. Returns the unsubscribe function. */
+export function onSupervisorEvent<K extends SupervisorEventName>(
+  events: EventBus,
+  name: K,
+  handler: (payload: SupervisorEventMap[K]) => void | Promise<void>
+): () => void {
+  return events.on(name, (data) => handler(data as SupervisorEventMap[K]));
+}
+
+/** Answer "supervisor:query" requests with `snapshot()`. Returns the unsubscribe function. */
+export function answerSupervisorQueries(events: EventBus, snapshot: () => SupervisorSnapshot): () => void {
+  return events.on(SUPERVISOR_QUERY, (data) => {
+    const query = data as Partial<SupervisorQuery> | undefined;
+    if (typeof query?.reply === "function") query.reply(structuredClone(snapshot()));
+  });
+}
+
+/** Read the supervisor's current state. Null when no supervisor is listening on this bus. */
+export function querySupervisor(events: EventBus): SupervisorSnapshot | null {
+  let snapshot: SupervisorSnapshot | null = null;
+  const query: SupervisorQuery = { reply: (s) => { snapshot = s; } };
+  events.emit(SUPERVISOR_QUERY, query);
+  return snapshot;
+}
@@ -0,0 +1,76 @@
+/**
+ * git-context — repository state for the supervisor prompt.
+ *
+ * Opt-in via `"gitContext": "stat"` or `"diff"` in the supervisor config. Each analysis then sees
+ * `git status`, a diff stat against the base recorded when supervision started, and with "diff"
+ * the changes themselves, truncated per file. Outside a git repository the section is left out.
+ */
+
+import { runGit } from "./workspace-tools.js";
+
+export type GitContextMode = "off" | "stat" | "diff";
+
+const MAX_STATUS_LINES = 40;
+const MAX_DIFF_CHARS = 8_000;
+const MAX_FILE_DIFF_CHARS = 1_500;
+
+/**
+ * The commit to measure progress against. Uncommitted work that exists at start is captured with
+ * `git stash create` (a commit object, nothing is stashed), so only the agent's changes show up later.
+ * Returns undefined outside a git repository or before the first commit.
+ */
+export async function recordBaseCommit(cwd: string): Promise<string | undefined> {
+  const snapshot = (await runGit(cwd, ["stash", "create"]))?.trim();
+  if (snapshot) return snapshot;
+  return (await runGit(cwd, ["rev-parse", "--verify", "HEAD"]))?.trim() || undefined;
+}
+
+/** The prompt section for the current repository state, or null when this is not a git repository. */
+export async function buildGitContext(
+  cwd: string,
+  base: string | undefined,
+  mode: Exclude<GitContextMode, "off">,
+  signal?: AbortSignal
+): Promise<string | null> {
+  const [status, stat, diff] = await Promise.all([
+    runGit(cwd, ["status", "--porcelain"], signal),
+    base ? runGit(cwd, ["diff", "--stat", base], signal) : Promise.resolve(null),
+    base && mode === "diff" ? runGit(cwd, ["diff", base], signal) : Promise.resolve(null),
+  ]);
+  if (status === null) return null;
+
+  const statusLines = status.split("\n").filter(Boolean);
+  const shownStatus = statusLines.length > MAX_STATUS_LINES
+    ? [...statusLines.slice(0, MAX_STATUS_LINES), `… ${statusLines.length - MAX_STATUS_LINES} more`]
+    : statusLines;
+
+  const parts = [`git status:\n${shownStatus.length > 0 ? shownStatus.join("\n") : "(clean)"}`];
+  if (!base) {
+    parts.push("(No base commit was recorded when supervision started — only the current status is known.)");
+  } else if (stat !== null) {
+    parts.push(stat.trim()
+      ? `Changes since supervision started (base ${base.slice(0, 8)}):\n${stat.trimEnd()}`
+      : "No files changed since supervision started.");
+  }
+  if (diff?.trim()) parts.push(`Diff since supervision started (truncated per file):\n${truncateDiff(diff)}`);
+  return parts.join("\n\n");
+}
+
+/** Keep every file's header and the start of its hunks, within a per-file and a total budget. */
+function truncateDiff(diff: string): string {
+  const files = diff.split(/^(?=diff --git )/m);
+  const out: string[] = [];
+  let used = 0;
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i].length > MAX_FILE_DIFF_CHARS
+      ? `${files[i].slice(0, MAX_FILE_DIFF_CHARS)}\n… (file diff truncated)\n`
+      : files[i];
+    if (used + file.length > MAX_DIFF_CHARS) {
+      out.push(`… (${files.length - i} more files not shown)\n`);
+      break;
+    }
+    out.push(file);
+    used += file.length;
+  }
+  return out.join("").trimEnd();
+}
@@ -0,0 +1,160 @@
+/**
+ * guardrails — per-outcome policies checked against every agent tool call as it happens.
+ *
+ * Guardrails come from `/supervise --allow-path GLOB --forbid-path GLOB --forbid-bash REGEX
+ * --protect-tests yes --on-violation block|steer <outcome>` or `guardrails` in
+ * .pi/supervisor-config.json (flag lists add to the config's). Edits and writes are checked
+ * against the path rules, bash commands against the forbidden patterns. A violating call is
+ * blocked, or allowed and followed by a steer, depending on `onViolation`.
+ */
+
+import { isAbsolute, relative, resolve } from "node:path";
+import type { GuardrailPolicy } from "./types.js";
+
+export interface GuardrailViolation {
+  rule: string;    // e.g. "forbidPaths: src/legacy/**"
+  reason: string;  // shown to the agent
+}
+
+/** Common test-file locations and names across ecosystems. */
+const TEST_FILE_PATTERNS = [
+  /(^|\/)(__tests__|__mocks__|tests?|spec|specs)\//,
+  /\.(test|spec)\.[cm]?[jt]sx?$/,
+  /_test\.(go|py|rb|exs?)$/,
+  /(^|\/)test_[^/]*\.py$/,
+  /(Test|Tests|Spec)\.(java|kt|cs|swift|scala)$/,
+];
+
+/** Keep only well-formed guardrail fields from untrusted input (config file, flags, tool params). */
+export function parseGuardrails(raw: unknown): GuardrailPolicy {
+  const policy: GuardrailPolicy = {};
+  if (!raw || typeof raw !== "object") return policy;
+  const r = raw as Record<string, unknown>;
+  const strings = (v: unknown) =>
+    Array.isArray(v) ? v.filter((s): s is string => typeof s === "string" && s.trim().length > 0).map((s) => s.trim()) : [];
+  const allowPaths = strings(r.allowPaths);
+  const forbidPaths = strings(r.forbidPaths);
+  const forbidBash = strings(r.forbidBash).filter(isValidRegex);
+  if (allowPaths.length) policy.allowPaths = allowPaths;
+  if (forbidPaths.length) policy.forbidPaths = forbidPaths;
+  if (forbidBash.length) policy.forbidBash = forbidBash;
+  if (r.protectTests === true) policy.protectTests = true;
+  if (r.onViolation === "block" || r.onViolation === "steer") policy.onViolation = r.onViolation;
+  return policy;
+}
+
+/** Read --allow-path / --forbid-path / --forbid-bash (repeatable), --protect-tests and --on-violation from parsed flags. */
+export function guardrailsFromFlags(flags: Record<string, string[]>): GuardrailPolicy {
+  const last = (name: string) => flags[name]?.[flags[name].length - 1];
+  return parseGuardrails({
+    allowPaths: flags["allow-path"],
+    forbidPaths: flags["forbid-path"],
+    forbidBash: flags["forbid-bash"],
+    protectTests: ["yes", "true", "on"].includes(last("protect-tests") ?? ""),
+    onViolation: last("on-violation"),
+  });
+}
+
+/** Combine policies: lists are concatenated, scalar fields from `override` win. */
+export function mergeGuardrails(base: GuardrailPolicy = {}, override: GuardrailPolicy = {}): GuardrailPolicy {
+  return parseGuardrails({
+    allowPaths: [...(base.allowPaths ?? []), ...(override.allowPaths ?? [])],
+    forbidPaths: [...(base.forbidPaths ?? []), ...(override.forbidPaths ?? [])],
+    forbidBash: [...(base.forbidBash ?? []), ...(override.forbidBash ?? [])],
+    protectTests: override.protectTests ?? base.protectTests,
+    onViolation: override.onViolation ?? base.onViolation,
+  });
+}
+
+export function hasGuardrails(policy: GuardrailPolicy): boolean {
+  return !!(policy.allowPaths || policy.forbidPaths || policy.forbidBash || policy.protectTests);
+}
+
+/**
+ * Check one tool call. Returns the first violation, or null when the call is allowed.
+ * Only built-in `edit`/`write` (paths) and `bash` (commands) are checked.
+ */
+export function checkToolCall(
+  policy: GuardrailPolicy,
+  toolName: string,
+  input: Record<string, unknown>,
+  cwd: string
+): GuardrailViolation | null {
+  if ((toolName === "edit" || toolName === "write") && typeof input.path === "string") {
+    return checkPath(policy, input.path, cwd);
+  }
+  if (toolName === "bash" && typeof input.command === "string") {
+    for (const pattern of policy.forbidBash ?? []) {
+      if (new RegExp(pattern).test(input.command)) {
+        return { rule: `forbidBash: ${pattern}`, reason: `Commands matching /${pattern}/ are not allowed for this outcome.` };
+      }
+    }
+  }
+  return null;
+}
+
+function checkPath(policy: GuardrailPolicy, path: string, cwd: string): GuardrailViolation | null {
+  const abs = isAbsolute(path) ? path : resolve(cwd, path);
+  const rel = relative(cwd, abs).split("\\").join("/");
+  const outside = rel.startsWith("../") || rel === ".." || isAbsolute(rel);
+  const target = outside ? abs : rel;
+
+  for (const glob of policy.forbidPaths ?? []) {
+    if (globToRegExp(glob).test(target)) {
+      return { rule: `forbidPaths: ${glob}`, reason: `Modifying ${target} is not allowed — it matches the forbidden path "${glob}".` };
+    }
+  }
+  if (policy.protectTests && TEST_FILE_PATTERNS.some((p) => p.test(target))) {
+    return { rule: "protectTests", reason: `${target} is a test file, and test files must not be modified for this outcome.` };
+  }
+  if (policy.allowPaths && !policy.allowPaths.some((glob) => globToRegExp(glob).test(target))) {
+    return {
+      rule: "allowPaths",
+      reason: `Modifying ${target} is outside the allowed paths (${policy.allowPaths.join(", ")}).`,
+    };
+  }
+  return null;
+}
+
+/** Minimal glob support: `**` spans directories, `*` and `?` stay within one path segment. */
+function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*" && glob[i + 1] === "*") {
+      const slash = glob[i + 2] === "/";
+      re += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (ch === "*") {
+      re += "[^/]*";
+    } else if (ch === "?") {
+      re += "[^/]";
+    } else {
+      re += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  // A bare directory ("src/legacy" or "src/legacy/") covers everything below it
+  return new RegExp(`^${re.replace(/\/$/, "")}(?:/.*)?$`);
+}
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Short summary, e.g. "forbid 2 paths · 1 bash pattern · tests protected · block". Empty when there are none. */
+export function describeGuardrails(policy: GuardrailPolicy): string {
+  if (!hasGuardrails(policy)) return "";
+  const n = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+  return [
+    policy.allowPaths ? `allow ${n(policy.allowPaths.length, "path")}` : "",
+    policy.forbidPaths ? `forbid ${n(policy.forbidPaths.length, "path")}` : "",
+    policy.forbidBash ? n(policy.forbidBash.length, "bash pattern") : "",
+    policy.protectTests ? "tests protected" : "",
+    policy.onViolation ?? "block",
+  ].filter(Boolean).join(" · ");
+}
@@ -0,0 +1,126 @@
+/**
+ * headless — supervision for non-interactive pi runs (print/RPC mode, scripts, batch jobs).
+ *
+ * Started from CLI flags or environment variables as soon as the session starts; flags win:
+ *   --supervise "<outcome>"                PI_SUPERVISE
+ *   --supervise-sensitivity <level>        PI_SUPERVISE_SENSITIVITY
+ *   --supervise-model <provider/modelId>   PI_SUPERVISE_MODEL
+ *   --supervise-result <path|->            PI_SUPERVISE_RESULT   (default "-": stdout)
+ * In print mode the first prompt is held until supervision has a verdict. When supervision ends —
+ * or the session shuts down first — one JSON result is written and the process exit code is set:
+ * 0 when the outcome was achieved, 1 otherwise.
+ */
+
+import { writeFileSync } from "node:fs";
+import { isAbsolute, join } from "node:path";
+import type { Sensitivity, SupervisionResult, SupervisorState } from "./types.js";
+import { deliveredSteers } from "./state.js";
+
+export const HEADLESS_FLAGS = {
+  outcome: { flag: "supervise", env: "PI_SUPERVISE", description: "Start supervision toward this outcome as soon as the session starts" },
+  sensitivity: { flag: "supervise-sensitivity", env: "PI_SUPERVISE_SENSITIVITY", description: "Sensitivity for --supervise (level or profile name)" },
+  model: { flag: "supervise-model", env: "PI_SUPERVISE_MODEL", description: "Supervisor model for --supervise, as provider/modelId" },
+  result: { flag: "supervise-result", env: "PI_SUPERVISE_RESULT", description: "Where --supervise writes its JSON result: a file path, or - for stdout" },
+} as const;
+
+export interface HeadlessOptions {
+  outcome: string;
+  sensitivity?: Sensitivity;
+  model?: { provider: string; modelId: string };
+  resultPath?: string;       // absent or "-": stdout, as a "supervisor_result" line
+}
+
+/** How a headless run ended. "incomplete": the session shut down while supervision was still active. */
+export type HeadlessOutcome = SupervisionResult | "incomplete";
+
+/** The machine-readable result written at the end of a headless run. */
+export interface HeadlessResult {
+  result: HeadlessOutcome;
+  outcome: string;
+  interventions: number;     // steers that reached the agent
+  runs: number;              // agent runs supervised
+  reasoning: string;
+  confidence: number | null;
+  model: string;             // supervisor model, "provider/modelId"
+  cost: number;              // estimated supervisor spend in USD
+  startedAt: string;
+  endedAt: string;
+}
+
+/** Headless options from flags, then environment variables. Null when no outcome is given. */
+export function headlessOptions(
+  getFlag: (name: string) => boolean | string | undefined,
+  env: Record<string, string | undefined>
+): HeadlessOptions | null {
+  const read = (key: keyof typeof HEADLESS_FLAGS): string | undefined => {
+    const { flag, env: name } = HEADLESS_FLAGS[key];
+    const value = getFlag(flag);
+    const text = typeof value === "string" && value.trim() ? value : env[name];
+    return text?.trim() || undefined;
+  };
+  const outcome = read("outcome");
+  if (!outcome) return null;
+  const model = read("model");
+  const slash = model?.indexOf("/") ?? -1;
+  return {
+    outcome,
+    sensitivity: read("sensitivity"),
+    model: model && slash > 0 && slash < model.length - 1
+      ? { provider: model.slice(0, slash), modelId: model.slice(slash + 1) }
+      : undefined,
+    resultPath: read("result"),
+  };
+}
+
+export function buildHeadlessResult(state: SupervisorState): HeadlessResult {
+  return {
+    result: state.active ? "incomplete" : state.verdict?.result ?? "stopped",
+    outcome: state.outcome,
+    interventions: deliveredSteers(state),
+    runs: state.turnCount,
+    reasoning: state.verdict?.reasoning ?? "",
+    confidence: state.verdict?.confidence ?? null,
+    model: `${state.provider}/${state.modelId}`,
+    cost: state.usage.cost,
+    startedAt: new Date(state.startedAt).toISOString(),
+    endedAt: new Date(state.endedAt ?? Date.now()).toISOString(),
+  };
+}
+
+/**
+ * Write the result as a file relative to `cwd`, or to stdout as one JSON line tagged
+ * `"type": "supervisor_result"` (stdout also carries the agent's answer, or pi's JSON event stream),
+ * and set the exit code. Returns the path written, or null for stdout or on failure.
+ */
+export function writeHeadlessResult(cwd: string, result: HeadlessResult, path?: string): string | null {
+  setHeadlessExitCode(result.result === "achieved" ? 0 : 1);
+  if (!path || path === "-") {
+    process.stdout.write(JSON.stringify({ type: "supervisor_result", ...result }) + "\n");
+    return null;
+  }
+  const target = isAbsolute(path) ? path : join(cwd, path);
+  try {
+    writeFileSync(target, JSON.stringify(result, null, 2) + "\n", "utf-8");
+    return target;
+  } catch (err) {
+    logHeadless(`could not write result to ${target} — ${err instanceof Error ? err.message : String(err)}`);
+    return null;
+  }
+}
+
+let exitCode: number | undefined; // decided by the result, or by a startup error
+
+/**
+ * Set the exit code the process ends with. Print mode finishes with `process.exit(0)`, which
+ * overrides `process.exitCode` — but a code set from an "exit" listener still wins.
+ */
+export function setHeadlessExitCode(code: number): void {
+  if (exitCode === undefined) process.once("exit", () => { process.exitCode = exitCode; });
+  exitCode = code;
+  process.exitCode = code;
+}
+
+/** Progress for headless runs goes to stderr, where it stays out of the result on stdout. */
+export function logHeadless(message: string): void {
+  process.stderr.write(`[supervisor] ${message}\n`);
+}
@@ -3,21 +3,88 @@
  *
  * Commands:
  *   /supervise <outcome>          — start supervising
+ *   /supervise --verify "<cmd>" <outcome> — start supervising; <cmd> must pass before "done" (repeatable)
+ *   /supervise --max-runs N --max-steers N --max-minutes N --max-cost USD <outcome> — start with budgets
+ *   /supervise --forbid-path GLOB --allow-path GLOB --forbid-bash REGEX --protect-tests yes --on-violation block|steer <outcome>
+ *                                 — start with tool-call guardrails
+ *   /supervise --prompt <name> <outcome> — start with the prompt variant .pi/supervisors/<name>.md
+ *   /supervise shadow <outcome>   — evaluate like /supervise, but only log what it would do
+ *   /supervise preset [name] [details] — list outcome presets, or start from one
  *   /supervise stop               — stop supervision
  *   /supervise status             — show current status widget
  *   /supervise model              — open interactive model picker (pi-style)
  *   /supervise model <p/modelId>  — set model directly (scripting)
- *   /supervise sensitivity <low|medium|high> — adjust steering sensitivity
+ *   /supervise sensitivity <low|medium|high|profile> — adjust steering sensitivity (custom profiles from config)
+ *   /supervise delivery <auto|approve> — send steers directly, or only after you approve them
+ *   /supervise queue add <outcome> — queue an outcome to supervise after the current one
+ *   /supervise queue list|remove <n>|clear — inspect or edit the goal queue
+ *   /supervise report [--json|--md] [path] — export the current or most recent supervision
+ *   /supervise replay [--model p/id] [--stub recorded|<script.json>] <session.jsonl> — re-run the supervisor over a saved session
+ *   /supervise config show        — show the effective config and where each value comes from
+ *
+ * Headless (print/RPC mode): --supervise "<outcome>" or PI_SUPERVISE starts supervision when the
+ * session starts and writes a JSON result at the end — see headless.ts.
+ *
+ * Other extensions can follow supervision through "supervisor:*" events on pi.events and read
+ * the current state with a "supervisor:query" request — see events.ts.
  */
 
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { isAbsolute, join } from "node:path";
 import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
-import { SupervisorStateManager, DEFAULT_PROVIDER, DEFAULT_MODEL_ID, DEFAULT_SENSITIVITY } from "./state.js";
-import { analyze, loadSystemPrompt } from "./engine.js";
-import { updateUI, toggleWidget, isWidgetVisible, type WidgetAction } from "./ui/status-widget.js";
+import { SupervisorStateManager, DEFAULT_PROVIDER, DEFAULT_MODEL_ID, DEFAULT_SENSITIVITY, deliveredSteers } from "./state.js";
+import { analyze, deriveCriteria, gateDoneOnCriteria, judgeDone, loadSystemPrompt, loadUserPrompt } from "./engine.js";
+import { updateUI, toggleWidget, isWidgetVisible, setWidgetVisible, type WidgetAction } from "./ui/status-widget.js";
 import { pickModel } from "./ui/model-picker.js";
 import { openSettings } from "./ui/settings-panel.js";
-import { loadWorkspaceModel, saveWorkspaceModel } from "./workspace-config.js";
-import type { Sensitivity } from "./types.js";
+import { reviewSteer, type SteerReview } from "./ui/steer-approval.js";
+import {
+  loadLayeredConfig,
+  loadWorkspaceConfig,
+  loadWorkspaceModel,
+  isGlobalConfigPath,
+  saveConfigValues,
+  type WorkspaceConfig,
+  type WorkspaceModelConfig,
+} from "./workspace-config.js";
+import { formatVerificationFailure, runVerification } from "./verification.js";
+import { buildReport, resolveReportFormat, writeReport, type ReportFormat } from "./report.js";
+import { budgetsFromFlags, describeBudgets, exhaustedBudget, overspentBudget, type ExhaustedBudget } from "./budgets.js";
+import { isMidRunCheck, listProfiles, resolveProfile } from "./profiles.js";
+import { findPromptVariant, listPromptVariants } from "./prompt-template.js";
+import { applyPreset, describePreset, loadPresets, needsDetails, presetError } from "./presets.js";
+import { recordBaseCommit } from "./git-context.js";
+import { answerSupervisorQueries, emitSupervisorEvent } from "./events.js";
+import {
+  buildHeadlessResult,
+  HEADLESS_FLAGS,
+  headlessOptions,
+  logHeadless,
+  setHeadlessExitCode,
+  writeHeadlessResult,
+  type HeadlessOptions,
+} from "./headless.js";
+import {
+  liveClient,
+  parseScript,
+  recordedClient,
+  runReplay,
+  scriptedClient,
+  writeReplay,
+  type ReplayClient,
+} from "./replay.js";
+import { checkToolCall, describeGuardrails, guardrailsFromFlags, hasGuardrails, mergeGuardrails } from "./guardrails.js";
+import type {
+  CallUsage,
+  GoalSummary,
+  JudgeRule,
+  QueuedGoal,
+  ResponseRepair,
+  Sensitivity,
+  SteeringDecision,
+  SupervisorState,
+} from "./types.js";
 import { Type } from "@sinclair/typebox";
 
 /**
@@ -38,26 +105,401 @@ function extractThinking(accumulated: string): string {
   return raw.replace(/\\n/g, " ").replace(/\\"/g, '"').trim();
 }
 
-// After this many consecutive idle-state steers with no "done", run a lenient final evaluation.
-const MAX_IDLE_STEERS = 5;
+/** Per-goal record written when a supervision reaches "done". */
+function summarizeGoal(s: SupervisorState, reasoning: string): GoalSummary {
+  return {
+    outcome: s.outcome,
+    startedAt: s.startedAt,
+    endedAt: Date.now(),
+    turnCount: s.turnCount,
+    steers: deliveredSteers(s),
+    criteriaMet: s.criteria.filter((c) => c.status === "met").length,
+    criteriaTotal: s.criteria.length,
+    reasoning,
+  };
+}
+
+/** Which prompt files an outcome uses, for the start notification: "built-in prompt" or the paths. */
+function describePrompts(cwd: string, variant?: string): string {
+  const { source } = loadSystemPrompt(cwd, variant);
+  const user = loadUserPrompt(cwd, variant);
+  const system = source === "built-in" ? "built-in prompt" : source.replace(cwd, ".");
+  return user ? `${system} + ${user.source.replace(cwd, ".")}` : system;
+}
+
+/** "provider/modelId" as written in the config file; undefined removes the key when saved. */
+function formatModelRef(model: WorkspaceModelConfig | null | undefined): string | undefined {
+  return model ? `${model.provider}/${model.modelId}` : undefined;
+}
+
+/** "provider/modelId, …" for the judge panel, or "none". */
+function formatJudges(judges: WorkspaceModelConfig[]): string {
+  return judges.map((m) => formatModelRef(m)).join(", ") || "none";
+}
+
+/** Config values for judge panel changes from the settings panel. */
+function judgeValues(judges?: WorkspaceModelConfig[], rule?: JudgeRule): Record<string, unknown> {
+  return {
+    ...(judges ? { judges: judges.map((m) => `${m.provider}/${m.modelId}`) } : {}),
+    ...(rule ? { judgeRule: rule } : {}),
+  };
+}
+
+/** `/supervise config show`: every set key with its value and source layer, then the files and any problems. */
+function formatConfig(ctx: ExtensionContext): string {
+  const { config, sources, files, issues } = loadLayeredConfig(ctx.cwd);
+  const show = (key: keyof WorkspaceConfig): string => {
+    switch (key) {
+      case "rules": return config.rules!.map((r) => r.id).join(", ") || "none";
+      case "profiles": return Object.keys(config.profiles!).join(", ") || "none";
+      case "guardrails": return describeGuardrails(config.guardrails!) || "none";
+      case "budgets": return describeBudgets(config.budgets!) || "none";
+      case "fallbackModels": return config.fallbackModels!.map((m) => `${m.provider}/${m.modelId}`).join(", ") || "none";
+      case "judges": return formatJudges(config.judges!);
+      case "escalationModel": return formatModelRef(config.escalationModel)!;
+      case "escalationBand": return config.escalationBand!.join("–");
+      case "verify": return config.verify!.map((c) => `"${c}"`).join(", ") || "none";
+      default: return String(config[key]);
+    }
+  };
+  const keys = Object.keys(sources) as (keyof WorkspaceConfig)[];
+  const width = Math.max(...keys.map((k) => k.length));
+  const tilde = (path: string) => path.replace(ctx.cwd, ".").replace(homedir(), "~");
+  const lines = [
+    "Supervisor config (defaults → global → project):",
+    ...keys.map((key) => `  ${key.padEnd(width)}  ${show(key)}  (${sources[key]})`),
+    `Global:  ${tilde(files.global)}${existsSync(files.global) ? "" : " (not present)"}`,
+    `Project: ${tilde(files.project)}${existsSync(files.project) ? "" : " (not present)"}`,
+  ];
+  if (issues.length > 0) {
+    lines.push("Problems (ignored):", ...issues.map((i) => `  ${i.layer} ${i.key}: ${i.message}`));
+  }
+  return lines.join("\n");
+}
+
+/** The --prompt variant from parsed flags, or a warning naming the available ones when it does not exist. */
+function promptFromFlags(cwd: string, flags: Record<string, string[]>): { prompt?: string; error?: string } {
+  const prompt = flags.prompt?.[flags.prompt.length - 1];
+  if (!prompt || findPromptVariant(cwd, prompt)) return { prompt };
+  const available = listPromptVariants(cwd);
+  return {
+    error: `No prompt variant "${prompt}" in .pi/supervisors/ or ~/.pi/agent/supervisors/` +
+      (available.length > 0 ? ` — available: ${available.join(", ")}` : ""),
+  };
+}
+
+/**
+ * Split leading `--flag value` pairs off the /supervise arguments.
+ * Values may be quoted with "…" or '…'. Flags may repeat; parsing stops at the first non-flag token.
+ */
+function parseLeadingFlags(args: string): { flags: Record<string, string[]>; rest: string } {
+  const flags: Record<string, string[]> = {};
+  let rest = args.trim();
+  let match: RegExpMatchArray | null;
+  while ((match = rest.match(/^--([a-z][\w-]*)\s+(?:"([^"]*)"|'([^']*)'|(\S+))\s*/))) {
+    const value = match[2] ?? match[3] ?? match[4];
+    (flags[match[1]] ??= []).push(value);
+    rest = rest.slice(match[0].length);
+  }
+  return { flags, rest };
+}
 
 export default function (pi: ExtensionAPI) {
   const state = new SupervisorStateManager(pi);
   let currentCtx: ExtensionContext | undefined;
   let idleSteers = 0; // consecutive agent_end steers; reset on done/stop/new supervision
+  let reviewOpen = false; // an approval overlay is showing — hold back further steers
+  let reviewClosed: Promise<void> = Promise.resolve(); // settles when that overlay closes
+  let headless: HeadlessOptions | null = null; // started by --supervise / PI_SUPERVISE: no TUI, JSON result at the end
+  let headlessReported = false;
+  let releasePrintRun: (() => void) | null = null; // print mode: lets the held first prompt return
+
+  for (const { flag, description } of Object.values(HEADLESS_FLAGS)) pi.registerFlag(flag, { type: "string", description });
+
+  // Other extensions read the current state through "supervisor:query" — see events.ts
+  answerSupervisorQueries(pi.events, () => ({
+    active: state.isActive(),
+    state: state.getState(),
+    queue: state.getQueue(),
+    goalProgress: state.goalProgress(),
+  }));
+
+  const refreshUI = (ctx: ExtensionContext, action?: WidgetAction) => {
+    if (ctx.hasUI) updateUI(ctx, state.getState(), action, state.goalProgress());
+  };
+
+  /** Notify through the UI; headless runs also log to stderr, since print mode shows no notifications. */
+  const notify = (ctx: ExtensionContext, message: string, type: "info" | "warning" | "error") => {
+    ctx.ui.notify(message, type);
+    if (headless) logHeadless(message);
+  };
+
+  /** Write the headless result once: when supervision ends, or when the session shuts down first. */
+  const finishHeadless = (ctx: ExtensionContext) => {
+    const s = state.getState();
+    if (!headless || headlessReported || !s) return;
+    headlessReported = true;
+    const result = buildHeadlessResult(s);
+    const written = writeHeadlessResult(ctx.cwd, result, headless.resultPath);
+    logHeadless(
+      `${result.result} after ${result.runs} runs and ${result.interventions} interventions` +
+        (written ? ` — result written to ${written}` : "")
+    );
+    releasePrintRun?.();
+    releasePrintRun = null;
+  };
+
+  /** Print mode: the agent is idle and nothing will prompt it again, so the run ends with what it has. */
+  const settlePrintRun = (ctx: ExtensionContext) => {
+    if (releasePrintRun) finishHeadless(ctx);
+  };
+
+  /** Model for a new supervision: session state → workspace config → active session model → built-in defaults. */
+  const resolveModel = (ctx: ExtensionContext): { provider: string; modelId: string } => {
+    const existing = state.getState();
+    const workspaceModel = loadWorkspaceModel(ctx.cwd);
+    const sessionModel = ctx.model;
+    return {
+      provider: existing?.provider ?? workspaceModel?.provider ?? sessionModel?.provider ?? DEFAULT_PROVIDER,
+      modelId:  existing?.modelId  ?? workspaceModel?.modelId  ?? sessionModel?.id      ?? DEFAULT_MODEL_ID,
+    };
+  };
+
+  /**
+   * Start supervising the next queued goal with the current model and sensitivity.
+   * With `kickoff`, a user message is sent so the idle agent starts working on it right away.
+   */
+  const startNextGoal = async (ctx: ExtensionContext, kickoff: boolean): Promise<boolean> => {
+    const next = state.dequeue();
+    if (!next) return false;
+    const { provider, modelId } = resolveModel(ctx);
+    const sensitivity = state.getState()?.sensitivity ?? DEFAULT_SENSITIVITY;
+    const workspaceConfig = loadWorkspaceConfig(ctx.cwd);
+    const { criteria, usage: initialUsage } = await deriveCriteria(ctx, provider, modelId, next.outcome, undefined, workspaceConfig);
+    const verifyCommands = next.verifyCommands ?? workspaceConfig.verify ?? [];
+    const budgets = { ...workspaceConfig.budgets, ...next.budgets };
+    const guardrails = mergeGuardrails(workspaceConfig.guardrails, next.guardrails);
+    const baseCommit = await recordBaseCommit(ctx.cwd);
+
+    state.start(next.outcome, provider, modelId, sensitivity, {
+      criteria, verifyCommands, budgets, guardrails, initialUsage, prompt: next.prompt, baseCommit,
+      delivery: state.getState()?.delivery ?? workspaceConfig.delivery,
+    });
+    idleSteers = 0;
+    refreshUI(ctx);
+
+    const progress = state.goalProgress();
+    const position = progress ? ` (${progress.current}/${progress.total})` : "";
+    notify(ctx, `Supervisor: next goal${position}: "${next.outcome}"`, "info");
+    if (kickoff) pi.sendUserMessage(`Next goal${position}: ${next.outcome}`);
+    return true;
+  };
+
+  /** A budget ran out: stop cleanly and record why, instead of steering on. */
+  const stopForBudget = (ctx: ExtensionContext, exhausted: ExhaustedBudget, reasoning?: string) => {
+    const s = state.getState()!;
+    state.stop({
+      result: "budget-exhausted",
+      reasoning: `${exhausted.label} used up${reasoning ? ` — last assessment: ${reasoning}` : ""}`,
+    });
+    idleSteers = 0;
+    refreshUI(ctx);
+    notify(
+      ctx,
+      `Supervisor stopped: ${exhausted.label} used up before the outcome was reached. "${s.outcome}"`,
+      "warning"
+    );
+    finishHeadless(ctx);
+  };
+
+  /**
+   * Start supervision from --supervise / PI_SUPERVISE: no model picker, no approval overlay.
+   * An unknown sensitivity is refused on stderr with a failing exit code, and the run goes unsupervised.
+   */
+  const startHeadless = async (ctx: ExtensionContext, options: HeadlessOptions) => {
+    const workspaceConfig = loadWorkspaceConfig(ctx.cwd);
+    const profiles = listProfiles(workspaceConfig.profiles);
+    if (options.sensitivity && !profiles.some((p) => p.name === options.sensitivity)) {
+      logHeadless(
+        `unknown sensitivity "${options.sensitivity}" — available: ${profiles.map((p) => p.name).join(", ")}. Supervision not started.`
+      );
+      setHeadlessExitCode(1);
+      headless = null;
+      return;
+    }
+    const { provider, modelId } = options.model ?? resolveModel(ctx);
+    const sensitivity = options.sensitivity ?? workspaceConfig.sensitivity ?? DEFAULT_SENSITIVITY;
+    const { criteria, usage: initialUsage } = await deriveCriteria(ctx, provider, modelId, options.outcome, undefined, workspaceConfig);
+    const baseCommit = await recordBaseCommit(ctx.cwd);
+
+    state.resetCompletedGoals();
+    state.start(options.outcome, provider, modelId, sensitivity, {
+      criteria,
+      verifyCommands: workspaceConfig.verify ?? [],
+      budgets: workspaceConfig.budgets ?? {},
+      guardrails: workspaceConfig.guardrails ?? {},
+      initialUsage,
+      delivery: "auto",
+      baseCommit,
+    });
+    idleSteers = 0;
+    logHeadless(`supervising "${options.outcome}" | ${provider}/${modelId} | ${sensitivity} | ${criteria.length} criteria`);
+  };
+
+  /**
+   * Record a steer and send it to the agent. In "approve" delivery mode the user reviews it first
+   * and may edit, reject or stop; without a UI there is nobody to ask, so it is rejected. While an
+   * overlay is open, mid-run steers are skipped and an end-of-run steer waits for its own review.
+   * Returns true when a message was sent.
+   */
+  const deliverSteer = async (
+    ctx: ExtensionContext,
+    decision: SteeringDecision & { message: string },
+    midRun: boolean,
+    guardrail?: string
+  ): Promise<boolean> => {
+    const s = state.getState()!;
+    const record = {
+      turnCount: s.turnCount,
+      message: decision.message,
+      reasoning: decision.reasoning,
+      confidence: decision.confidence,
+      timestamp: Date.now(),
+      guardrail,
+      judges: decision.judges,
+      tier: decision.tier,
+    };
+
+    let message = decision.message;
+    if (s.delivery === "approve") {
+      if (reviewOpen && midRun) return false;
+      while (reviewOpen) await reviewClosed;
+      if (!state.isActive()) return false; // stopped from the overlay it waited for
+
+      let review: SteerReview = { action: "reject" };
+      if (ctx.hasUI) {
+        reviewOpen = true;
+        refreshUI(ctx, { type: "reviewing", message });
+        try {
+          const pending = reviewSteer(ctx, {
+            message,
+            reasoning: decision.reasoning,
+            confidence: decision.confidence,
+            turn: s.turnCount,
+            midRun,
+          });
+          reviewClosed = pending.then(() => undefined, () => undefined);
+          review = await pending;
+        } finally {
+          reviewOpen = false;
+        }
+      }
+      if (!state.isActive()) return false; // stopped while the overlay was open
+
+      if (review.action === "reject" || review.action === "stop") {
+        state.addIntervention({ ...record, disposition: "rejected" });
+        if (review.action === "stop") {
+          state.stop();
+          idleSteers = 0;
+          notify(ctx, "Supervisor stopped.", "info");
+        }
+        refreshUI(ctx, review.action === "stop" ? undefined : { type: "watching" });
+        return false;
+      }
+      message = review.message;
+      state.addIntervention(review.action === "edit"
+        ? { ...record, message, proposedMessage: decision.message, disposition: "edited" }
+        : { ...record, disposition: "approved" });
+    } else {
+      state.addIntervention(record);
+    }
+
+    refreshUI(ctx, { type: "steering", message, tier: decision.tier });
+    if (midRun) pi.sendUserMessage(message, { deliverAs: "steer" });
+    else if (ctx.isIdle()) pi.sendUserMessage(message);
+    else pi.sendUserMessage(message, { deliverAs: "followUp" }); // a steer approved while this one waited restarted the agent
+    emitSupervisorEvent(pi.events, "supervisor:steer-sent", {
+      outcome: s.outcome,
+      turn: s.turnCount,
+      midRun,
+      intervention: s.interventions[s.interventions.length - 1],
+    });
+    return true;
+  };
+
+  /** Log every malformed response repaired during one analysis, judges included. */
+  const recordRepairs = (repairs: ResponseRepair[] | undefined) => {
+    const s = state.getState()!;
+    for (const repair of repairs ?? []) state.addRepair({ ...repair, turnCount: s.turnCount, timestamp: Date.now() });
+  };
+
+  /** Shadow mode: log what the supervisor would have done and show it — the conversation is left alone. */
+  const recordShadow = (ctx: ExtensionContext, decision: SteeringDecision, midRun: boolean) => {
+    const s = state.getState()!;
+    const message = decision.action === "steer" ? decision.message : undefined;
+    state.addShadowDecision({
+      turnCount: s.turnCount,
+      midRun,
+      action: decision.action,
+      message,
+      reasoning: decision.reasoning,
+      confidence: decision.confidence,
+      timestamp: Date.now(),
+      tier: decision.tier,
+    });
+    refreshUI(ctx, { type: "shadow", action: decision.action, message, tier: decision.tier });
+  };
 
   // ---- Session lifecycle: restore state ----
 
   const onSessionLoad = (ctx: ExtensionContext) => {
     currentCtx = ctx;
+    const { config, issues } = loadLayeredConfig(ctx.cwd);
+    setWidgetVisible(config.widget ?? true);
     state.loadFromSession(ctx);
-    updateUI(ctx, state.getState());
+    refreshUI(ctx);
+    if (issues.length > 0) {
+      notify(
+        ctx,
+        `Supervisor config has problems (ignored):\n` +
+          issues.map((i) => `  ${i.layer} ${i.key}: ${i.message}`).join("\n"),
+        "warning"
+      );
+    }
   };
 
-  pi.on("session_start", async (_event, ctx) => onSessionLoad(ctx));
+  /** Save config values; when the file cannot be written, say so. Returns the path written, or null. */
+  const saveConfig = (ctx: ExtensionContext, values: Record<string, unknown>): string | null =>
+    saveConfigValues(ctx.cwd, values, (message) => notify(ctx, `Supervisor setting not saved: ${message}`, "warning"));
+
+  /** " · saved to <file>" for notifications, or "" when the config could not be written. */
+  const savedNote = (ctx: ExtensionContext, path: string | null): string =>
+    path
+      ? ` · saved to ${path.replace(ctx.cwd, ".").replace(homedir(), "~")}` +
+        (isGlobalConfigPath(path) ? " (global — this project has no .pi/ directory)" : "")
+      : "";
+
+  pi.on("session_start", async (_event, ctx) => {
+    headless = headlessOptions((name) => pi.getFlag(name), process.env);
+    onSessionLoad(ctx);
+    if (headless && !state.isActive()) await startHeadless(ctx, headless);
+  });
   pi.on("session_switch", async (_event, ctx) => onSessionLoad(ctx));
   pi.on("session_fork", async (_event, ctx) => onSessionLoad(ctx));
   pi.on("session_tree", async (_event, ctx) => onSessionLoad(ctx));
+  pi.on("session_shutdown", async (_event, ctx) => finishHeadless(ctx));
+
+  // Print mode returns — and exits — as soon as its first prompt does, without waiting for agent_end
+  // handlers: pass that prompt on to the agent and hold it until supervision has a verdict
+  pi.on("input", async (event, ctx) => {
+    if (!headless || headlessReported || ctx.hasUI || event.source !== "interactive" || !state.isActive()) return;
+    // Without a model or key the prompt fails before the agent starts; let pi report that itself
+    if (!ctx.model || !(await ctx.modelRegistry.getApiKey(ctx.model))) return;
+    const finished = new Promise<void>((resolve) => { releasePrintRun = resolve; });
+    pi.sendUserMessage(event.images ? [{ type: "text", text: event.text }, ...event.images] : event.text);
+    await finished;
+    return { action: "handled" };
+  });
 
   // ---- Keep ctx fresh ----
 
@@ -65,8 +507,49 @@ export default function (pi: ExtensionAPI) {
     currentCtx = ctx;
   });
 
+  // ---- Guardrails: check each tool call before it runs ----
+  // A violation is blocked (the agent sees the reason as the tool's error), or allowed and
+  // followed by a steer, depending on the outcome's policy. Shadow mode only logs it.
+
+  pi.on("tool_call", async (event, ctx) => {
+    if (!state.isActive()) return;
+    const s = state.getState()!;
+    if (!hasGuardrails(s.guardrails)) return;
+
+    const violation = checkToolCall(s.guardrails, event.toolName, event.input, ctx.cwd);
+    if (!violation) return;
+
+    const block = (s.guardrails.onViolation ?? "block") === "block";
+    const message = block
+      ? `Supervisor guardrail blocked this ${event.toolName} call: ${violation.reason}`
+      : `Supervisor guardrail: ${violation.reason} Undo that change if needed and stay within the rules for this outcome.`;
+    const reasoning = `Guardrail ${violation.rule} — ${event.toolName} call ${block ? "blocked" : "flagged"}`;
+
+    if (s.shadow) {
+      recordShadow(ctx, { action: "steer", message, reasoning, confidence: 1 }, true);
+      return;
+    }
+
+    if (block) {
+      state.addIntervention({
+        turnCount: s.turnCount,
+        message,
+        reasoning,
+        confidence: 1,
+        timestamp: Date.now(),
+        disposition: "blocked",
+        guardrail: violation.rule,
+      });
+      refreshUI(ctx, { type: "steering", message });
+      return { block: true, reason: message };
+    }
+    // Not awaited: in "approve" mode the review must not hold up the tool call it is about
+    void deliverSteer(ctx, { action: "steer", message, reasoning, confidence: 1 }, true /* mid-run */, violation.rule);
+  });
+
   // ---- Mid-turn steering: medium and high sensitivity ----
   // turn_end fires after each LLM sub-turn (tool-call cycle) while the agent is still running.
+  // The sensitivity profile sets the cadence, start turn and confidence threshold:
   // low:    no mid-run checks at all
   // medium: check every 3rd tool cycle (turns 2, 5, 8, …), confidence >= 0.9
   // high:   check every tool cycle from turn 2, confidence >= 0.85
@@ -76,28 +559,52 @@ export default function (pi: ExtensionAPI) {
     if (!state.isActive()) return;
     const s = state.getState()!;
 
-    if (s.sensitivity === "low") return;
-    if (event.turnIndex < 2) return; // let the agent settle before intervening
-    if (s.sensitivity === "medium" && (event.turnIndex - 2) % 3 !== 0) return;
+    // Read the config once per check — this runs on every tool cycle
+    const config = loadWorkspaceConfig(ctx.cwd);
+    const profile = resolveProfile(s.sensitivity, config.profiles);
+    if (!isMidRunCheck(profile, event.turnIndex)) return;
+    if (reviewOpen) return; // the user is still deciding on the last proposal
+
+    // Budgets: out of time or money → stop now; out of runs/steers → no room to steer mid-run, agent_end decides
+    const exhausted = exhaustedBudget(s);
+    if (exhausted) {
+      if (exhausted.budget === "maxMinutes" || exhausted.budget === "maxCost") stopForBudget(ctx, exhausted);
+      return;
+    }
+
+    const check = { outcome: s.outcome, turn: s.turnCount, midRun: true };
+    emitSupervisorEvent(pi.events, "supervisor:analysis-started", check);
 
     let decision;
     try {
-      decision = await analyze(ctx, s, false /* agent still working */, false /* can't stagnate mid-turn */);
+      decision = await analyze(
+        ctx, s, false /* agent still working */, false /* can't stagnate mid-turn */, undefined, undefined,
+        (usage) => state.recordUsage(usage), undefined /* live model */, config
+      );
     } catch {
       return;
     }
 
-    // Higher bar for medium — less willing to disrupt productive work
-    const threshold = s.sensitivity === "medium" ? 0.9 : 0.85;
-    if (decision.action === "steer" && decision.message && decision.confidence >= threshold) {
-      state.addIntervention({
-        turnCount: s.turnCount,
-        message: decision.message,
-        reasoning: decision.reasoning,
-        timestamp: Date.now(),
-      });
-      updateUI(ctx, state.getState(), { type: "steering", message: decision.message });
-      pi.sendUserMessage(decision.message, { deliverAs: "steer" });
+    recordRepairs(decision.repairs);
+    emitSupervisorEvent(pi.events, "supervisor:decision", { ...check, decision });
+
+    // Every model failed — record it and let the agent keep working; agent_end will try again
+    if (decision.error) {
+      state.addFailure({ turnCount: s.turnCount, error: decision.error, timestamp: Date.now() });
+      refreshUI(ctx, { type: "failed", error: decision.error });
+      return;
+    }
+
+    if (decision.criteria && state.updateCriteria(decision.criteria)) {
+      refreshUI(ctx);
+    }
+
+    const wouldSteer = decision.action === "steer" && !!decision.message && decision.confidence >= profile.steerThreshold;
+    if (s.shadow) {
+      // Mid-run, anything short of a confident steer is acted on as "continue"
+      recordShadow(ctx, wouldSteer ? decision : { ...decision, action: "continue" }, true);
+    } else if (wouldSteer) {
+      await deliverSteer(ctx, { ...decision, message: decision.message! }, true /* mid-run */);
     }
   });
 
@@ -107,43 +614,265 @@ export default function (pi: ExtensionAPI) {
 
   pi.on("agent_end", async (_event, ctx) => {
     currentCtx = ctx;
-    if (!state.isActive()) return;
+    if (!state.isActive()) {
+      settlePrintRun(ctx);
+      return;
+    }
 
     state.incrementTurnCount();
     const s = state.getState()!;
 
     // Stagnation: too many steers with no "done" → final lenient evaluation
-    const stagnating = idleSteers >= MAX_IDLE_STEERS;
+    const config = loadWorkspaceConfig(ctx.cwd);
+    const { stagnationLimit } = resolveProfile(s.sensitivity, config.profiles);
+    const stagnating = idleSteers >= stagnationLimit;
 
-    updateUI(ctx, s, { type: "analyzing", turn: s.turnCount });
+    // Budgets: out of time or money, or past the last allowed run → stop before paying for an analysis
+    const overspent = overspentBudget(s);
+    if (overspent) {
+      stopForBudget(ctx, overspent);
+      return;
+    }
 
-    const decision = await analyze(ctx, s, true /* always idle at agent_end */, stagnating, undefined, (accumulated) => {
-      const thinking = extractThinking(accumulated);
-      updateUI(ctx, state.getState()!, { type: "analyzing", turn: s.turnCount, thinking });
-    });
+    refreshUI(ctx, { type: "analyzing", turn: s.turnCount });
+    const check = { outcome: s.outcome, turn: s.turnCount, midRun: false };
+    emitSupervisorEvent(pi.events, "supervisor:analysis-started", check);
 
-    if (decision.action === "steer" && decision.message) {
-      idleSteers++;
-      state.addIntervention({
-        turnCount: s.turnCount,
-        message: decision.message,
-        reasoning: decision.reasoning,
-        timestamp: Date.now(),
+    const raw = await analyze(
+      ctx, s, true /* always idle at agent_end */, stagnating, undefined,
+      (accumulated) => {
+        const thinking = extractThinking(accumulated);
+        refreshUI(ctx, { type: "analyzing", turn: s.turnCount, thinking });
+      },
+      (usage) => state.recordUsage(usage), undefined /* live model */, config
+    );
+
+    recordRepairs(raw.repairs);
+
+    // Every model failed — say so instead of inventing a steer; the next prompt triggers a fresh analysis
+    if (raw.error) {
+      state.addFailure({ turnCount: s.turnCount, error: raw.error, timestamp: Date.now() });
+      emitSupervisorEvent(pi.events, "supervisor:decision", { ...check, decision: raw });
+      refreshUI(ctx, { type: "failed", error: raw.error });
+      notify(ctx, `Supervisor: analysis failed on turn ${s.turnCount} — ${raw.error}`, "warning");
+      settlePrintRun(ctx);
+      return;
+    }
+
+    if (raw.criteria) state.updateCriteria(raw.criteria);
+    let decision = gateDoneOnCriteria(raw, state.openCriteria(), stagnating);
+
+    // Judge panel: other models must confirm "done" before it is checked and accepted
+    const judgeCount = config.judges?.length ?? 0;
+    if (decision.action === "done" && judgeCount > 0) {
+      refreshUI(ctx, { type: "judging", judges: judgeCount });
+      decision = await judgeDone(ctx, s, decision, stagnating, undefined, (usage) => state.recordUsage(usage), config);
+      recordRepairs(decision.judges?.votes.flatMap((v) => (v.repair ? [v.repair] : [])));
+    }
+
+    // Verification commands have the final say on "done" — claims are checked, not trusted
+    if (decision.action === "done" && s.verifyCommands.length > 0) {
+      const failure = await runVerification(pi, ctx.cwd, s.verifyCommands, (command) => {
+        refreshUI(ctx, { type: "verifying", command });
       });
-      updateUI(ctx, state.getState(), { type: "steering", message: decision.message });
-      pi.sendUserMessage(decision.message);
+      if (failure) {
+        decision = {
+          action: "steer",
+          message: formatVerificationFailure(failure),
+          reasoning: `Supervisor judged done, but verification \`${failure.command}\` failed (code ${failure.code})`,
+          confidence: 1,
+        };
+      }
+    }
+
+    emitSupervisorEvent(pi.events, "supervisor:decision", { ...check, decision });
+
+    // Budgets: a steer would start another run — stop cleanly if any budget is used up
+    const exhausted = decision.action !== "done" ? exhaustedBudget(s) : null;
+
+    if (exhausted) {
+      stopForBudget(ctx, exhausted, decision.reasoning);
+    } else if (s.shadow) {
+      recordShadow(ctx, decision, false);
+    } else if (headless && stagnating && decision.action !== "done") {
+      // Nobody watches a headless run: give up once even the lenient evaluation wants another steer
+      state.stop({
+        result: "stagnated",
+        reasoning: `Not done after ${stagnationLimit} steering attempts — ${decision.reasoning}`,
+        confidence: decision.confidence,
+        tier: decision.tier,
+      });
+      idleSteers = 0;
+      notify(ctx, `Supervisor stopped: no progress after ${stagnationLimit} steering attempts. "${s.outcome}"`, "warning");
+      finishHeadless(ctx);
+    } else if (decision.action === "steer" && decision.message) {
+      if (await deliverSteer(ctx, { ...decision, message: decision.message }, false)) idleSteers++;
+      else settlePrintRun(ctx);
     } else if (decision.action === "done") {
       idleSteers = 0;
-      updateUI(ctx, state.getState(), { type: "done" });
-      const suffix = stagnating ? ` (stopped after ${MAX_IDLE_STEERS} steering attempts — goal substantially achieved)` : "";
-      ctx.ui.notify(`Supervisor: outcome achieved! "${s.outcome}"${suffix}`, "info");
-      state.stop();
-      updateUI(ctx, state.getState());
+      refreshUI(ctx, { type: "done", tier: decision.tier });
+      const suffix = stagnating ? ` (stopped after ${stagnationLimit} steering attempts — goal substantially achieved)` : "";
+      notify(ctx, `Supervisor: outcome achieved! "${s.outcome}"${suffix}`, "info");
+      state.recordGoalSummary(summarizeGoal(state.getState()!, decision.reasoning));
+      emitSupervisorEvent(pi.events, "supervisor:achieved", {
+        outcome: s.outcome,
+        turn: s.turnCount,
+        reasoning: decision.reasoning,
+        confidence: decision.confidence,
+        state: s,
+      });
+      state.stop({ result: "achieved", reasoning: decision.reasoning, confidence: decision.confidence, judges: decision.judges, tier: decision.tier });
+      refreshUI(ctx);
+
+      // Goal queue: move straight on to the next outcome
+      if (!(await startNextGoal(ctx, true /* kick off the idle agent */))) {
+        if (state.getCompletedGoals().length > 1) {
+          notify(ctx, `Supervisor: goal queue complete — ${state.getCompletedGoals().length} goals achieved.`, "info");
+        }
+        finishHeadless(ctx);
+      }
     } else {
-      updateUI(ctx, state.getState(), { type: "watching" });
+      refreshUI(ctx, { type: "watching" });
+      settlePrintRun(ctx);
     }
   });
 
+  // ---- /supervise queue … ----
+
+  const handleQueueCommand = async (args: string, ctx: ExtensionContext) => {
+    const sub = args.split(/\s+/)[0] || "list";
+    const rest = args.slice(sub.length).trim();
+
+    if (sub === "list") {
+      const queue = state.getQueue();
+      const completed = state.getCompletedGoals();
+      const s = state.getState();
+      if (queue.length === 0 && completed.length === 0) {
+        ctx.ui.notify("Goal queue is empty. Add one with /supervise queue add <outcome>.", "info");
+        return;
+      }
+      const lines = [
+        ...completed.map((g) => `✓ ${g.outcome} — ${g.turnCount} turns, ${g.steers} steers` +
+          (g.criteriaTotal > 0 ? `, ${g.criteriaMet}/${g.criteriaTotal} criteria` : "")),
+        ...(s?.active ? [`◉ ${s.outcome} (active)`] : []),
+        ...queue.map((g, i) => `${i + 1}. ${g.outcome}` + (g.verifyCommands?.length ? ` [verify: ${g.verifyCommands.join(", ")}]` : "")),
+      ];
+      ctx.ui.notify(`Goal queue:\n${lines.join("\n")}`, "info");
+      return;
+    }
+
+    if (sub === "add") {
+      const { flags, rest: outcome } = parseLeadingFlags(rest);
+      if (!outcome) {
+        ctx.ui.notify('Usage: /supervise queue add [--verify "<cmd>"]… [--max-* N] [--forbid-path GLOB]… [--prompt NAME] <outcome>', "warning");
+        return;
+      }
+      const { prompt, error } = promptFromFlags(ctx.cwd, flags);
+      if (error) {
+        ctx.ui.notify(error, "warning");
+        return;
+      }
+      const budgets = budgetsFromFlags(flags);
+      const guardrails = guardrailsFromFlags(flags);
+      const goal: QueuedGoal = {
+        outcome,
+        verifyCommands: flags.verify,
+        budgets: Object.keys(budgets).length > 0 ? budgets : undefined,
+        guardrails: Object.keys(guardrails).length > 0 ? guardrails : undefined,
+        prompt,
+        addedAt: Date.now(),
+      };
+      state.enqueue(goal);
+      if (!state.isActive()) {
+        // Nothing to wait for — supervise it right away, like /supervise <outcome>
+        state.resetCompletedGoals();
+        await startNextGoal(ctx, false);
+        return;
+      }
+      refreshUI(ctx);
+      ctx.ui.notify(`Queued goal #${state.getQueue().length}: "${outcome}"`, "info");
+      return;
+    }
+
+    if (sub === "remove") {
+      const n = Number.parseInt(rest, 10);
+      const removed = Number.isInteger(n) && n >= 1 ? state.removeFromQueue(n - 1) : undefined;
+      if (!removed) {
+        ctx.ui.notify(`Usage: /supervise queue remove <1-${Math.max(1, state.getQueue().length)}>`, "warning");
+        return;
+      }
+      refreshUI(ctx);
+      ctx.ui.notify(`Removed queued goal: "${removed.outcome}"`, "info");
+      return;
+    }
+
+    if (sub === "clear") {
+      state.clearQueue();
+      refreshUI(ctx);
+      ctx.ui.notify("Goal queue cleared.", "info");
+      return;
+    }
+
+    ctx.ui.notify("Usage: /supervise queue add <outcome> | list | remove <n> | clear", "warning");
+  };
+
+  /**
+   * Start supervising from /supervise or /supervise preset. `options` carries preset values;
+   * flags override them, and they override the session's and config's defaults.
+   */
+  const startFromCommand = async (
+    ctx: ExtensionContext,
+    outcome: string,
+    flags: Record<string, string[]>,
+    options: { shadow?: boolean; sensitivity?: Sensitivity; criteria?: string[]; prompt?: string } = {}
+  ) => {
+    const existing = state.getState();
+    const workspaceConfig = loadWorkspaceConfig(ctx.cwd);
+    let { provider, modelId } = resolveModel(ctx);
+    const sensitivity = options.sensitivity ?? existing?.sensitivity ?? workspaceConfig.sensitivity ?? DEFAULT_SENSITIVITY;
+    const { shadow = false, prompt } = options;
+
+    // Only prompt for a model if none has been configured yet
+    if (!existing) {
+      const apiKey = await ctx.modelRegistry.getApiKeyForProvider(provider);
+      if (!apiKey) {
+        ctx.ui.notify(`No API key for "${provider}/${modelId}" — pick a model with an available key.`, "warning");
+        const picked = await pickModel(ctx, provider, modelId);
+        if (!picked) return; // user cancelled
+        provider = picked.provider;
+        modelId = picked.id;
+      }
+    }
+
+    let criteria = options.criteria ?? [];
+    let initialUsage: CallUsage[] = [];
+    if (criteria.length === 0) {
+      ctx.ui.notify("Supervisor: deriving acceptance criteria…", "info");
+      ({ criteria, usage: initialUsage } = await deriveCriteria(ctx, provider, modelId, outcome, undefined, workspaceConfig));
+    }
+    const verifyCommands = flags.verify ?? workspaceConfig.verify ?? [];
+    const budgets = { ...workspaceConfig.budgets, ...budgetsFromFlags(flags) };
+    const guardrails = mergeGuardrails(workspaceConfig.guardrails, guardrailsFromFlags(flags));
+    const baseCommit = await recordBaseCommit(ctx.cwd);
+
+    state.resetCompletedGoals(); // a manual start begins a new sequence; queued goals follow it
+    state.start(outcome, provider, modelId, sensitivity, {
+      criteria, verifyCommands, budgets, guardrails, initialUsage, delivery: workspaceConfig.delivery, shadow, prompt, baseCommit,
+    });
+    idleSteers = 0;
+    refreshUI(ctx);
+
+    const promptLabel = describePrompts(ctx.cwd, prompt);
+    const criteriaLabel = criteria.length > 0 ? `${criteria.length} criteria` : "no criteria";
+    const verifyLabel = verifyCommands.length > 0 ? ` | verify: ${verifyCommands.join(", ")}` : "";
+    const budgetLabel = describeBudgets(budgets) ? ` | budget: ${describeBudgets(budgets)}` : "";
+    const guardLabel = hasGuardrails(guardrails) ? ` | guardrails: ${describeGuardrails(guardrails)}` : "";
+    ctx.ui.notify(
+      `${shadow ? "Supervisor shadowing (no steering)" : "Supervisor active"}: "${outcome.slice(0, 50)}${outcome.length > 50 ? "…" : ""}" | ${provider}/${modelId} | ${promptLabel} | ${criteriaLabel}${verifyLabel}${budgetLabel}${guardLabel}`,
+      "info"
+    );
+  };
+
   // ---- /supervise command ----
 
   pi.registerCommand("supervise", {
@@ -157,9 +886,10 @@ export default function (pi: ExtensionAPI) {
       if (trimmed === "widget") {
         const visible = toggleWidget();
         if (state.isActive()) {
-          updateUI(ctx, state.getState());
+          refreshUI(ctx);
         }
-        ctx.ui.notify(`Supervisor widget ${visible ? "shown" : "hidden"}.`, "info");
+        const saved = saveConfig(ctx, { widget: visible });
+        ctx.ui.notify(`Supervisor widget ${visible ? "shown" : "hidden"}${savedNote(ctx, saved)}.`, "info");
         return;
       }
 
@@ -170,7 +900,7 @@ export default function (pi: ExtensionAPI) {
         }
         state.stop();
         idleSteers = 0;
-        updateUI(ctx, state.getState());
+        refreshUI(ctx);
         ctx.ui.notify("Supervisor stopped.", "info");
         return;
       }
@@ -182,15 +912,33 @@ export default function (pi: ExtensionAPI) {
           return;
         }
         // Open the interactive settings panel (same as bare /supervise)
-        const result = await openSettings(ctx, s, DEFAULT_PROVIDER, DEFAULT_MODEL_ID, DEFAULT_SENSITIVITY);
+        const config = loadWorkspaceConfig(ctx.cwd);
+        const result = await openSettings(
+          ctx, s, DEFAULT_PROVIDER, DEFAULT_MODEL_ID, config.sensitivity ?? DEFAULT_SENSITIVITY, listProfiles(config.profiles),
+          { judges: config.judges ?? [], rule: config.judgeRule ?? "majority" }, config.escalationModel
+        );
+        const values: Record<string, unknown> = {};
         if (result?.model) {
           if (state.isActive()) state.setModel(result.model.provider, result.model.modelId);
-          saveWorkspaceModel(ctx.cwd, result.model.provider, result.model.modelId);
+          Object.assign(values, result.model);
+        }
+        if (result?.sensitivity) {
+          state.setSensitivity(result.sensitivity);
+          values.sensitivity = result.sensitivity;
+        }
+        if (result?.delivery && state.isActive()) state.setDelivery(result.delivery);
+        if (result?.judges || result?.judgeRule) Object.assign(values, judgeValues(result.judges, result.judgeRule));
+        if (result?.escalation !== undefined) values.escalationModel = formatModelRef(result.escalation);
+        if (result?.widget !== undefined && result.widget !== isWidgetVisible()) {
+          toggleWidget();
+          values.widget = result.widget;
+        }
+        if (Object.keys(values).length > 0) {
+          const saved = saveConfig(ctx, values);
+          if (saved) ctx.ui.notify(`Supervisor settings updated${savedNote(ctx, saved)}`, "info");
         }
-        if (result?.sensitivity && state.isActive()) state.setSensitivity(result.sensitivity);
-        if (result?.widget !== undefined && result.widget !== isWidgetVisible()) toggleWidget();
         if (result?.action === "stop" && state.isActive()) { state.stop(); idleSteers = 0; }
-        updateUI(ctx, state.getState());
+        refreshUI(ctx);
         return;
       }
 
@@ -208,12 +956,12 @@ export default function (pi: ExtensionAPI) {
 
           if (state.isActive()) {
             state.setModel(provider, modelId);
-            updateUI(ctx, state.getState());
+            refreshUI(ctx);
           }
-          const saved = saveWorkspaceModel(ctx.cwd, provider, modelId);
+          const saved = saveConfig(ctx, { provider, modelId });
           ctx.ui.notify(
             `Supervisor model set to ${provider}/${modelId}${state.isActive() ? "" : " (takes effect on next /supervise)"}` +
-              (saved ? " · saved to .pi/" : ""),
+              savedNote(ctx, saved),
             "info"
           );
           return;
@@ -233,29 +981,193 @@ export default function (pi: ExtensionAPI) {
 
         if (state.isActive()) {
           state.setModel(provider, modelId);
-          updateUI(ctx, state.getState());
+          refreshUI(ctx);
         }
-        const saved = saveWorkspaceModel(ctx.cwd, provider, modelId);
+        const saved = saveConfig(ctx, { provider, modelId });
         ctx.ui.notify(
           `Supervisor model set to ${provider}/${modelId}${state.isActive() ? "" : " (takes effect on next /supervise)"}` +
-            (saved ? " · saved to .pi/" : ""),
+            savedNote(ctx, saved),
           "info"
         );
         return;
       }
 
-      if (trimmed.startsWith("sensitivity ")) {
-        const level = trimmed.slice(12).trim() as Sensitivity;
-        if (level !== "low" && level !== "medium" && level !== "high") {
-          ctx.ui.notify("Usage: /supervise sensitivity <low|medium|high>", "warning");
+      if (trimmed === "config" || trimmed.startsWith("config ")) {
+        const sub = trimmed.slice(6).trim();
+        if (sub !== "show" && sub !== "") {
+          ctx.ui.notify("Usage: /supervise config show", "warning");
+          return;
+        }
+        ctx.ui.notify(formatConfig(ctx), "info");
+        return;
+      }
+
+      if (trimmed === "preset" || trimmed.startsWith("preset ")) {
+        const args = trimmed.slice(6).trim();
+        const presets = loadPresets(ctx.cwd);
+        const name = args.split(/\s+/)[0];
+        const preset = presets.find((p) => p.name === name);
+        if (!preset) {
+          ctx.ui.notify(
+            `${name ? `Unknown preset "${name}". ` : ""}Usage: /supervise preset <name> [--flags…] [details]\n` +
+              presets.map((p) => `  ${describePreset(p)}`).join("\n"),
+            name ? "warning" : "info"
+          );
+          return;
+        }
+        const problem = presetError(preset, listProfiles(loadWorkspaceConfig(ctx.cwd).profiles));
+        if (problem) {
+          ctx.ui.notify(problem, "warning");
+          return;
+        }
+        const { flags, rest: details } = parseLeadingFlags(args.slice(name.length));
+        if (!details && needsDetails(preset)) {
+          ctx.ui.notify(`Preset "${preset.name}" needs details: /supervise preset ${preset.name} <details>\n  ${preset.outcome}`, "warning");
           return;
         }
+        // --prompt overrides the preset's own variant
+        const { prompt, error } = promptFromFlags(ctx.cwd, { prompt: flags.prompt ?? (preset.prompt ? [preset.prompt] : []) });
+        if (error) {
+          ctx.ui.notify(error, "warning");
+          return;
+        }
+        const { outcome, criteria } = applyPreset(preset, details);
+        await startFromCommand(ctx, outcome, flags, { sensitivity: preset.sensitivity, criteria, prompt });
+        return;
+      }
+
+      if (trimmed === "queue" || trimmed.startsWith("queue ")) {
+        await handleQueueCommand(trimmed.slice(5).trim(), ctx);
+        return;
+      }
+
+      if (trimmed === "replay" || trimmed.startsWith("replay ")) {
+        const { flags, rest: file } = parseLeadingFlags(trimmed.slice(6));
+        if (!file) {
+          ctx.ui.notify(
+            "Usage: /supervise replay [--model <p/modelId>] [--stub recorded|<script.json>] [--prompts yes] [--out <path>] <session.jsonl>",
+            "warning"
+          );
+          return;
+        }
+        const sessionPath = isAbsolute(file) ? file : join(ctx.cwd, file);
+        if (!existsSync(sessionPath)) {
+          ctx.ui.notify(`No session file at ${file}`, "warning");
+          return;
+        }
+
+        const stub = flags.stub?.at(-1);
+        const spec = flags.model?.at(-1);
+        const model = spec?.includes("/")
+          ? { provider: spec.slice(0, spec.indexOf("/")), modelId: spec.slice(spec.indexOf("/") + 1) }
+          : undefined;
+        let client: ReplayClient;
+        if (stub === "recorded") {
+          client = recordedClient();
+        } else if (stub) {
+          let script: ReturnType<typeof parseScript> = null;
+          try {
+            script = parseScript(JSON.parse(readFileSync(isAbsolute(stub) ? stub : join(ctx.cwd, stub), "utf-8")));
+          } catch {
+            // unreadable or invalid JSON — reported below
+          }
+          if (!script) {
+            ctx.ui.notify(`Replay script ${stub} must be a JSON array of decisions`, "warning");
+            return;
+          }
+          client = scriptedClient(stub, script);
+        } else {
+          client = liveClient(model);
+        }
+
+        const out = flags.out?.at(-1);
+        try {
+          const result = await runReplay(ctx, sessionPath, {
+            client,
+            model: stub ? undefined : model,
+            prompts: flags.prompts?.at(-1) === "yes",
+            onProgress: (done, total) => ctx.ui.setStatus("supervisor-replay", `replay ${done}/${total}`),
+          });
+          const written = writeReplay(ctx.cwd, result, resolveReportFormat(undefined, out), out);
+          const { points, agreed, diverged, transitions } = result.summary;
+          const detail = Object.entries(transitions).map(([t, n]) => `${t}: ${n}`).join(", ");
+          ctx.ui.notify(
+            `Replay: ${points} points, ${agreed} agreed, ${diverged} diverged${detail ? ` (${detail})` : ""} — ` +
+              `written to ${written.replace(ctx.cwd, ".")}`,
+            diverged > 0 ? "warning" : "info"
+          );
+        } catch (err) {
+          ctx.ui.notify(`Replay failed: ${err instanceof Error ? err.message : String(err)}`, "error");
+        } finally {
+          ctx.ui.setStatus("supervisor-replay", undefined);
+        }
+        return;
+      }
+
+      if (trimmed === "report" || trimmed.startsWith("report ")) {
+        const s = state.getState();
+        if (!s) {
+          ctx.ui.notify("Nothing to report — no supervision in this session yet.", "warning");
+          return;
+        }
+        let flag: ReportFormat | undefined;
+        const pathParts: string[] = [];
+        for (const token of trimmed.slice(6).trim().split(/\s+/).filter(Boolean)) {
+          if (token === "--json") flag = "json";
+          else if (token === "--md") flag = "md";
+          else pathParts.push(token);
+        }
+        const path = pathParts.join(" ") || undefined;
+        const format = resolveReportFormat(flag, path);
+        const report = buildReport(s, state.getCompletedGoals(), state.getQueue().map((g) => g.outcome));
+        try {
+          const written = writeReport(ctx.cwd, report, format, path);
+          ctx.ui.notify(`Supervisor report written to ${written.replace(ctx.cwd, ".")}`, "info");
+        } catch (err) {
+          ctx.ui.notify(`Could not write report: ${err instanceof Error ? err.message : String(err)}`, "error");
+        }
+        return;
+      }
+
+      if (trimmed === "sensitivity" || trimmed.startsWith("sensitivity ")) {
+        const level = trimmed.slice(11).trim();
+        const profiles = listProfiles(loadWorkspaceConfig(ctx.cwd).profiles);
+        if (!profiles.some((p) => p.name === level)) {
+          ctx.ui.notify(
+            `Usage: /supervise sensitivity <${profiles.map((p) => p.name).join("|")}>\n` +
+              profiles.map((p) => `  ${p.name} — ${p.description}`).join("\n"),
+            level ? "warning" : "info"
+          );
+          return;
+        }
+        state.setSensitivity(level);
+        const saved = saveConfig(ctx, { sensitivity: level });
         if (!state.isActive()) {
-          ctx.ui.notify(`Sensitivity will be set to "${level}" on next /supervise.`, "info");
+          ctx.ui.notify(`Sensitivity will be set to "${level}" on next /supervise${savedNote(ctx, saved)}.`, "info");
         } else {
-          state.setSensitivity(level);
-          updateUI(ctx, state.getState());
-          ctx.ui.notify(`Supervisor sensitivity set to "${level}"`, "info");
+          refreshUI(ctx);
+          ctx.ui.notify(`Supervisor sensitivity set to "${level}"${savedNote(ctx, saved)}`, "info");
+        }
+        return;
+      }
+
+      if (trimmed.startsWith("delivery ")) {
+        const delivery = trimmed.slice(9).trim();
+        if (delivery !== "auto" && delivery !== "approve") {
+          ctx.ui.notify("Usage: /supervise delivery <auto|approve>", "warning");
+          return;
+        }
+        if (!state.isActive()) {
+          ctx.ui.notify(`No active supervision. Set "delivery": "${delivery}" in .pi/supervisor-config.json to make it the default.`, "info");
+        } else {
+          state.setDelivery(delivery);
+          refreshUI(ctx);
+          ctx.ui.notify(
+            delivery === "approve"
+              ? "Supervisor steers now wait for your approval."
+              : "Supervisor steers are now sent automatically.",
+            "info"
+          );
         }
         return;
       }
@@ -264,7 +1176,11 @@ export default function (pi: ExtensionAPI) {
 
       if (!trimmed || trimmed === "settings") {
         const s = state.getState();
-        const result = await openSettings(ctx, s, DEFAULT_PROVIDER, DEFAULT_MODEL_ID, DEFAULT_SENSITIVITY);
+        const config = loadWorkspaceConfig(ctx.cwd);
+        const result = await openSettings(
+          ctx, s, DEFAULT_PROVIDER, DEFAULT_MODEL_ID, config.sensitivity ?? DEFAULT_SENSITIVITY, listProfiles(config.profiles),
+          { judges: config.judges ?? [], rule: config.judgeRule ?? "majority" }, config.escalationModel
+        );
         if (!result) return; // user cancelled with no changes
 
         // Apply model change
@@ -273,20 +1189,42 @@ export default function (pi: ExtensionAPI) {
           if (state.isActive()) {
             state.setModel(p, m);
           }
-          const saved = saveWorkspaceModel(ctx.cwd, p, m);
+          const saved = saveConfig(ctx, { provider: p, modelId: m });
           ctx.ui.notify(
             `Supervisor model set to ${p}/${m}${state.isActive() ? "" : " (takes effect on next /supervise)"}` +
-              (saved ? " · saved to .pi/" : ""),
+              savedNote(ctx, saved),
             "info"
           );
         }
 
         // Apply sensitivity change
         if (result.sensitivity) {
-          if (state.isActive()) {
-            state.setSensitivity(result.sensitivity);
-          }
-          ctx.ui.notify(`Supervisor sensitivity set to "${result.sensitivity}"`, "info");
+          state.setSensitivity(result.sensitivity);
+          const saved = saveConfig(ctx, { sensitivity: result.sensitivity });
+          ctx.ui.notify(`Supervisor sensitivity set to "${result.sensitivity}"${savedNote(ctx, saved)}`, "info");
+        }
+
+        // Apply delivery change
+        if (result.delivery && state.isActive()) {
+          state.setDelivery(result.delivery);
+          ctx.ui.notify(`Supervisor delivery set to "${result.delivery}"`, "info");
+        }
+
+        // Apply judge panel changes
+        if (result.judges || result.judgeRule) {
+          const saved = saveConfig(ctx, judgeValues(result.judges, result.judgeRule));
+          ctx.ui.notify(`Supervisor judges: ${formatJudges(result.judges ?? config.judges ?? [])} · rule ${result.judgeRule ?? config.judgeRule ?? "majority"}${savedNote(ctx, saved)}`, "info");
+        }
+
+        // Apply escalation model change
+        if (result.escalation !== undefined) {
+          const saved = saveConfig(ctx, { escalationModel: formatModelRef(result.escalation) });
+          ctx.ui.notify(
+            (result.escalation
+              ? `Supervisor escalation model set to ${formatModelRef(result.escalation)}`
+              : "Supervisor escalation turned off") + savedNote(ctx, saved),
+            "info"
+          );
         }
 
         // Apply widget toggle
@@ -294,6 +1232,8 @@ export default function (pi: ExtensionAPI) {
           const currentlyVisible = isWidgetVisible();
           if (result.widget !== currentlyVisible) {
             toggleWidget();
+            const saved = saveConfig(ctx, { widget: result.widget });
+            ctx.ui.notify(`Supervisor widget ${result.widget ? "shown" : "hidden"}${savedNote(ctx, saved)}.`, "info");
           }
         }
 
@@ -304,40 +1244,28 @@ export default function (pi: ExtensionAPI) {
           ctx.ui.notify("Supervisor stopped.", "info");
         }
 
-        updateUI(ctx, state.getState());
+        refreshUI(ctx);
         return;
       }
 
-      // Resolve model settings: session state → workspace config → active session model → built-in defaults
-      const existing = state.getState();
-      const workspaceModel = loadWorkspaceModel(ctx.cwd);
-      const sessionModel = ctx.model;
-      let provider = existing?.provider ?? workspaceModel?.provider ?? sessionModel?.provider ?? DEFAULT_PROVIDER;
-      let modelId  = existing?.modelId  ?? workspaceModel?.modelId  ?? sessionModel?.id      ?? DEFAULT_MODEL_ID;
-      const sensitivity = existing?.sensitivity ?? DEFAULT_SENSITIVITY;
-
-      // Only prompt for a model if none has been configured yet
-      if (!existing) {
-        const apiKey = await ctx.modelRegistry.getApiKeyForProvider(provider);
-        if (!apiKey) {
-          ctx.ui.notify(`No API key for "${provider}/${modelId}" — pick a model with an available key.`, "warning");
-          const picked = await pickModel(ctx, provider, modelId);
-          if (!picked) return; // user cancelled
-          provider = picked.provider;
-          modelId = picked.id;
-        }
-      }
+      // --- start supervising (or shadowing) ---
 
-      state.start(trimmed, provider, modelId, sensitivity);
-      idleSteers = 0;
-      updateUI(ctx, state.getState());
+      const shadow = trimmed === "shadow" || trimmed.startsWith("shadow ");
+      const { flags, rest: outcome } = parseLeadingFlags(shadow ? trimmed.slice(6) : trimmed);
+      if (!outcome) {
+        ctx.ui.notify(
+          `Usage: /supervise ${shadow ? "shadow " : ""}[--verify "<cmd>"]… [--max-runs N] [--max-steers N] [--max-minutes N] [--max-cost USD] [--forbid-path GLOB]… [--protect-tests yes] [--prompt NAME] <outcome>`,
+          "warning"
+        );
+        return;
+      }
+      const { prompt, error: promptError } = promptFromFlags(ctx.cwd, flags);
+      if (promptError) {
+        ctx.ui.notify(promptError, "warning");
+        return;
+      }
 
-      const { source } = loadSystemPrompt(ctx.cwd);
-      const promptLabel = source === "built-in" ? "built-in prompt" : source.replace(ctx.cwd, ".");
-      ctx.ui.notify(
-        `Supervisor active: "${trimmed.slice(0, 50)}${trimmed.length > 50 ? "…" : ""}" | ${provider}/${modelId} | ${promptLabel}`,
-        "info"
-      );
+      await startFromCommand(ctx, outcome, flags, { shadow, prompt });
     },
   });
 
@@ -354,24 +1282,32 @@ export default function (pi: ExtensionAPI) {
       outcome: Type.String({
         description:
           "The desired end-state to supervise toward. Be specific and measurable " +
-          "(e.g. 'Implement JWT auth with refresh tokens and full test coverage').",
+          "(e.g. 'Implement JWT auth with refresh tokens and full test coverage'). " +
+          "With `preset`, the details filled into the preset's outcome (e.g. 'login fails for emails with a plus sign').",
       }),
-      sensitivity: Type.Optional(Type.Union([
-        Type.Literal("low"),
-        Type.Literal("medium"),
-        Type.Literal("high"),
-      ], {
+      preset: Type.Optional(Type.String({
+        description:
+          "Outcome preset to start from (built-in: bugfix, tdd, refactor, docs; more may be defined in the project). " +
+          "Supplies the outcome text, sensitivity, acceptance criteria and prompt unless given explicitly.",
+      })),
+      sensitivity: Type.Optional(Type.String({
         description:
           "How aggressively to steer. low = only when seriously off track, " +
-          "medium = on mild drift (default), high = proactively + mid-turn checks.",
+          "medium = on mild drift (default), high = proactively + mid-turn checks. " +
+          "May also name a custom sensitivity profile defined in the project's supervisor config.",
       })),
       model: Type.Optional(Type.String({
         description:
           "Supervisor model as 'provider/modelId' (e.g. 'anthropic/claude-haiku-4-5-20251001'). " +
           "Defaults to workspace config, then the active chat model.",
       })),
+      criteria: Type.Optional(Type.Array(Type.String(), {
+        description:
+          "Acceptance criteria that together define the outcome (e.g. 'refresh endpoint rotates tokens'). " +
+          "When omitted, the supervisor derives them from the outcome.",
+      })),
     }),
-    execute: async (_toolCallId, params, _signal, _onUpdate, ctx) => {
+    execute: async (_toolCallId, params, signal, _onUpdate, ctx) => {
       const text = (msg: string) => ({ content: [{ type: "text" as const, text: msg }], details: undefined });
 
       // Guard: supervision already active — model cannot modify it
@@ -384,8 +1320,31 @@ export default function (pi: ExtensionAPI) {
         );
       }
 
-      // Resolve sensitivity
-      const sensitivity: Sensitivity = params.sensitivity ?? DEFAULT_SENSITIVITY;
+      const workspaceConfig = loadWorkspaceConfig(ctx.cwd);
+      const profiles = listProfiles(workspaceConfig.profiles);
+      if (params.sensitivity && !profiles.some((p) => p.name === params.sensitivity)) {
+        return text(`Unknown sensitivity "${params.sensitivity}". Available: ${profiles.map((p) => p.name).join(", ")}`);
+      }
+
+      // Resolve the preset, if any: it fills in whatever the params leave out
+      let outcome = params.outcome;
+      let presetCriteria: string[] = [];
+      let prompt: string | undefined;
+      const preset = params.preset ? loadPresets(ctx.cwd).find((p) => p.name === params.preset) : undefined;
+      if (params.preset && !preset) {
+        return text(`Unknown preset "${params.preset}". Available: ${loadPresets(ctx.cwd).map((p) => p.name).join(", ")}`);
+      }
+      if (preset) {
+        const problem = params.sensitivity ? null : presetError(preset, profiles);
+        if (problem) return text(problem);
+        ({ outcome, criteria: presetCriteria } = applyPreset(preset, params.outcome));
+        const variant = promptFromFlags(ctx.cwd, { prompt: preset.prompt ? [preset.prompt] : [] });
+        if (variant.error) return text(variant.error);
+        prompt = variant.prompt;
+      }
+
+      // Resolve sensitivity: tool param → preset → config → built-in default
+      const sensitivity: Sensitivity = params.sensitivity ?? preset?.sensitivity ?? workspaceConfig.sensitivity ?? DEFAULT_SENSITIVITY;
 
       // Resolve model: tool param → workspace config → active session model → built-in default
       let provider: string;
@@ -401,21 +1360,38 @@ export default function (pi: ExtensionAPI) {
         modelId  = workspaceModel?.modelId  ?? sessionModel?.id      ?? DEFAULT_MODEL_ID;
       }
 
-      state.start(params.outcome, provider, modelId, sensitivity);
+      const explicit = (params.criteria ?? []).map((c) => c.trim()).filter(Boolean);
+      const given = explicit.length > 0 ? explicit : presetCriteria;
+      const { criteria, usage: initialUsage } = given.length > 0
+        ? { criteria: given, usage: [] }
+        : await deriveCriteria(ctx, provider, modelId, outcome, signal, workspaceConfig);
+
+      const verifyCommands = workspaceConfig.verify ?? [];
+      const budgets = workspaceConfig.budgets ?? {};
+      const guardrails = workspaceConfig.guardrails ?? {};
+      const baseCommit = await recordBaseCommit(ctx.cwd);
+
+      state.resetCompletedGoals();
+      state.start(outcome, provider, modelId, sensitivity, {
+        criteria, verifyCommands, budgets, guardrails, initialUsage, delivery: workspaceConfig.delivery, prompt, baseCommit,
+      });
       idleSteers = 0;
       currentCtx = ctx;
-      updateUI(ctx, state.getState());
+      refreshUI(ctx);
 
-      const { source } = loadSystemPrompt(ctx.cwd);
-      const promptLabel = source === "built-in" ? "built-in prompt" : ".pi/SUPERVISOR.md";
+      const promptLabel = describePrompts(ctx.cwd, prompt);
+      const presetLabel = preset ? ` | preset: ${preset.name}` : "";
 
       // Notify the user so they're aware supervision was initiated by the model
       ctx.ui.notify(
-        `Supervisor started by agent: "${params.outcome.slice(0, 60)}${params.outcome.length > 60 ? "…" : ""}" | ${provider}/${modelId} | sensitivity: ${sensitivity} | ${promptLabel}`,
+        `Supervisor started by agent: "${outcome.slice(0, 60)}${outcome.length > 60 ? "…" : ""}" | ${provider}/${modelId} | sensitivity: ${sensitivity} | ${promptLabel}${presetLabel}`,
         "info"
       );
 
-      return text(`Supervision active. Outcome: "${params.outcome}" | ${provider}/${modelId} | sensitivity: ${sensitivity}`);
+      const criteriaText = criteria.length > 0
+        ? `\nAcceptance criteria:\n${criteria.map((c, i) => `  [${i + 1}] ${c}`).join("\n")}`
+        : "";
+      return text(`Supervision active. Outcome: "${outcome}" | ${provider}/${modelId} | sensitivity: ${sensitivity}${criteriaText}`);
     },
   });
 }
@@ -0,0 +1,62 @@
+/**
+ * json-repair — tolerant clean-up for almost-JSON returned by the supervisor model.
+ *
+ * Handles the common slips: a JSON object wrapped in prose or code fences,
+ * trailing commas, and raw newlines/tabs inside string values.
+ */
+
+/**
+ * Extract and clean the first JSON object in `text`.
+ * Returns the parsed value, or undefined when nothing usable could be recovered.
+ */
+export function repairJson(text: string): unknown {
+  const start = text.indexOf("{");
+  if (start < 0) return undefined;
+
+  let out = "";
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (ch === "\\") {
+        escaped = true;
+      } else if (ch === '"') {
+        inString = false;
+      } else if (ch === "\n") {
+        out += "\\n";
+        continue;
+      } else if (ch === "\r") {
+        out += "\\r";
+        continue;
+      } else if (ch === "\t") {
+        out += "\\t";
+        continue;
+      }
+      out += ch;
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === "{" || ch === "[") {
+      depth++;
+    } else if (ch === "}" || ch === "]") {
+      depth--;
+      out = out.replace(/,\s*$/, ""); // trailing comma before the closer
+    }
+    out += ch;
+    if (depth === 0) break; // end of the first top-level object — ignore trailing prose
+  }
+
+  try {
+    return JSON.parse(out);
+  } catch {
+    return undefined;
+  }
+}
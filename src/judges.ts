@@ -0,0 +1,49 @@
+/**
+ * judges — a panel of models that must confirm "done" before supervision ends.
+ *
+ * Configured with `"judges": ["provider/modelId", …]` and `"judgeRule"` in the supervisor config.
+ * When the supervisor says "done" at the end of a run, every judge sees the same prompt in parallel
+ * and votes. Judges that cannot be reached abstain; if all abstain, the supervisor's verdict stands.
+ */
+
+import type { JudgeRule, JudgeVote } from "./types.js";
+
+export const JUDGE_RULES: JudgeRule[] = ["unanimous", "majority", "weighted"];
+
+export const JUDGE_RULE_DESCRIPTIONS: Record<JudgeRule, string> = {
+  unanimous: "Every judge must agree the outcome is done",
+  majority: "More than half of the judges must say done",
+  weighted: "Done wins when its votes carry more total confidence than the rest",
+};
+
+/** Whether the votes confirm "done" under `rule`. Abstentions are not counted. */
+export function combineVotes(rule: JudgeRule, votes: JudgeVote[]): boolean {
+  const counted = votes.filter((v) => v.vote !== "abstain");
+  if (counted.length === 0) return true;
+  const done = counted.filter((v) => v.vote === "done");
+  switch (rule) {
+    case "unanimous":
+      return done.length === counted.length;
+    case "majority":
+      return done.length * 2 > counted.length;
+    case "weighted": {
+      const weight = (list: JudgeVote[]) => list.reduce((sum, v) => sum + v.confidence, 0);
+      return weight(done) > weight(counted.filter((v) => v.vote === "not-done"));
+    }
+  }
+}
+
+/** The most confident "not done" vote — its steer is used when the panel rejects "done". */
+export function strongestDissent(votes: JudgeVote[]): JudgeVote | undefined {
+  return votes
+    .filter((v) => v.vote === "not-done")
+    .sort((a, b) => b.confidence - a.confidence)[0];
+}
+
+/** Short tally, e.g. "2/3 done" or "1/2 done, 1 abstained". */
+export function describeVotes(votes: JudgeVote[]): string {
+  const counted = votes.filter((v) => v.vote !== "abstain");
+  const abstained = votes.length - counted.length;
+  const done = counted.filter((v) => v.vote === "done").length;
+  return `${done}/${counted.length} done${abstained > 0 ? `, ${abstained} abstained` : ""}`;
+}
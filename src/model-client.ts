@@ -2,7 +2,9 @@
  * model-client — calls the supervisor LLM using pi's internal agent session API.
  *
  * callModel        — low-level: returns raw response text
- * callSupervisorModel — high-level: parses response as SteeringDecision
+ * callModelWithRetries — raw response text, with retries and fallback models
+ * callSupervisorModel — high-level: retries, falls back to other models, parses response as SteeringDecision
+ * SupervisorModelClient — the shape of callSupervisorModel, so analyze() can run against a stub (see replay.ts)
  */
 
 import {
@@ -10,12 +12,55 @@ import {
   DefaultResourceLoader,
   SessionManager,
 } from "@mariozechner/pi-coding-agent";
-import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
-import type { SteeringDecision } from "./types.js";
+import type { ExtensionContext, ToolDefinition } from "@mariozechner/pi-coding-agent";
+import type { Model, Usage } from "@mariozechner/pi-ai";
+import type { SteeringDecision, CriterionUpdate, CriterionStatus, CallUsage } from "./types.js";
+import { repairJson } from "./json-repair.js";
+
+/** Optional extras for a supervisor call. */
+export interface CallOptions {
+  /** Tools the supervisor may use (read-only workspace tools). Default: none. */
+  tools?: ToolDefinition[];
+  /** Receives token usage, estimated cost and latency once the call finishes (also on failure). */
+  onUsage?: (usage: CallUsage) => void;
+  /** Abort the call after this many milliseconds. Default: no timeout. */
+  timeoutMs?: number;
+}
+
+/** How hard callSupervisorModel tries before giving up. */
+export interface RetryPolicy {
+  /** Extra attempts per model on transient errors (timeouts, rate limits, 5xx, network). */
+  retries: number;
+  /** Models tried in order once the primary model has failed. */
+  fallbacks: Array<{ provider: string; modelId: string }>;
+}
+
+/** Anything that answers a supervisor prompt like callSupervisorModel does. */
+export type SupervisorModelClient = (
+  ctx: ExtensionContext,
+  provider: string,
+  modelId: string,
+  systemPrompt: string,
+  userPrompt: string,
+  signal?: AbortSignal,
+  onDelta?: (accumulated: string) => void,
+  options?: CallOptions,
+  policy?: RetryPolicy
+) => Promise<SteeringDecision>;
+
+type Attempt = { ok: true; text: string } | { ok: false; error: string; transient: boolean };
+
+/** Result of callModelWithRetries: the text and the model that produced it, or every model's error. */
+export type RetriedCall =
+  | { ok: true; text: string; provider: string; modelId: string }
+  | { ok: false; error: string };
+
+const TRANSIENT_ERROR = /timed? ?out|rate.?limit|\b429\b|\b5\d\d\b|overloaded|unavailable|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|network|fetch failed/i;
+const BACKOFF_BASE_MS = 1000;
 
 /**
  * Run a one-shot LLM call using pi's internal agent session.
- * Returns the raw response text, or null on failure.
+ * Returns the raw response text (the final assistant message when tools are used), or null on failure.
  */
 export async function callModel(
   ctx: ExtensionContext,
@@ -24,10 +69,26 @@ export async function callModel(
   systemPrompt: string,
   userPrompt: string,
   signal?: AbortSignal,
-  onDelta?: (accumulated: string) => void
+  onDelta?: (accumulated: string) => void,
+  options: CallOptions = {}
 ): Promise<string | null> {
+  const attempt = await attemptModel(ctx, provider, modelId, systemPrompt, userPrompt, signal, onDelta, options);
+  return attempt.ok ? attempt.text : null;
+}
+
+/** One call to one model, reporting why it failed. */
+async function attemptModel(
+  ctx: ExtensionContext,
+  provider: string,
+  modelId: string,
+  systemPrompt: string,
+  userPrompt: string,
+  signal: AbortSignal | undefined,
+  onDelta: ((accumulated: string) => void) | undefined,
+  options: CallOptions
+): Promise<Attempt> {
   const model = ctx.modelRegistry.find(provider, modelId);
-  if (!model) return null;
+  if (!model) return { ok: false, error: "model not found", transient: false };
 
   const loader = new DefaultResourceLoader({
     noExtensions: true,
@@ -41,22 +102,44 @@ export async function callModel(
   let session: Awaited<ReturnType<typeof createAgentSession>>["session"];
   try {
     const result = await createAgentSession({
+      cwd: ctx.cwd,
       sessionManager: SessionManager.inMemory(),
       modelRegistry: ctx.modelRegistry,
       model,
-      tools: [],
+      tools: [], // no built-ins; read-only tools (if any) come in as custom tools so their budget applies
+      customTools: options.tools,
       resourceLoader: loader,
     });
     session = result.session;
-  } catch {
-    return null;
+  } catch (err) {
+    return { ok: false, error: errorText(err), transient: false };
   }
 
   const onAbort = () => session.abort();
   signal?.addEventListener("abort", onAbort, { once: true });
 
+  let timedOut = false;
+  const timer = options.timeoutMs
+    ? setTimeout(() => {
+        timedOut = true;
+        session.abort();
+      }, options.timeoutMs)
+    : undefined;
+
   let responseText = "";
+  let providerError: string | undefined;
+  const usage: CallUsage = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, latencyMs: 0 };
+  const startedAt = Date.now();
   const unsubscribe = session.subscribe((event) => {
+    // Sum usage over every assistant message — tool use means several per call
+    if (event.type === "message_end" && event.message.role === "assistant") {
+      addUsage(usage, model, event.message.usage);
+      if (event.message.stopReason === "error") providerError = event.message.errorMessage ?? "provider error";
+    }
+    // With tools, the model may talk between calls — only the last assistant message is the answer
+    if (event.type === "message_start" && event.message.role === "assistant") {
+      responseText = "";
+    }
     if (
       event.type === "message_update" &&
       event.assistantMessageEvent.type === "text_delta"
@@ -68,20 +151,97 @@ export async function callModel(
 
   try {
     await session.prompt(userPrompt);
-  } catch {
-    return null;
+  } catch (err) {
+    providerError ??= errorText(err);
   } finally {
+    clearTimeout(timer);
     unsubscribe();
     signal?.removeEventListener("abort", onAbort);
     session.dispose();
+    usage.latencyMs = Date.now() - startedAt;
+    options.onUsage?.(usage);
   }
 
-  return responseText;
+  if (timedOut) return { ok: false, error: `timed out after ${Math.round(options.timeoutMs! / 1000)}s`, transient: true };
+  if (signal?.aborted) return { ok: false, error: "aborted", transient: false };
+  if (providerError) return { ok: false, error: providerError, transient: TRANSIENT_ERROR.test(providerError) };
+  if (!responseText.trim()) return { ok: false, error: "empty response", transient: true };
+  return { ok: true, text: responseText };
+}
+
+function errorText(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** Accumulate one message's token counts; cost is estimated from the model's per-million-token pricing. */
+function addUsage(target: CallUsage, model: Model<any>, usage: Usage | undefined): void {
+  if (!usage) return;
+  target.input += usage.input;
+  target.output += usage.output;
+  target.cacheRead += usage.cacheRead;
+  target.cacheWrite += usage.cacheWrite;
+  target.cost +=
+    (model.cost.input * usage.input +
+      model.cost.output * usage.output +
+      model.cost.cacheRead * usage.cacheRead +
+      model.cost.cacheWrite * usage.cacheWrite) / 1_000_000;
+}
+
+/** Resolves after `ms`, or immediately when the signal aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * Run a one-shot call, retrying transient errors with exponential backoff, then trying each
+ * fallback model in turn. Returns the first response text, or every model's error joined.
+ */
+export async function callModelWithRetries(
+  ctx: ExtensionContext,
+  provider: string,
+  modelId: string,
+  systemPrompt: string,
+  userPrompt: string,
+  signal?: AbortSignal,
+  onDelta?: (accumulated: string) => void,
+  options: CallOptions = {},
+  policy: RetryPolicy = { retries: 0, fallbacks: [] }
+): Promise<RetriedCall> {
+  const chain = [{ provider, modelId }, ...policy.fallbacks];
+  const errors: string[] = [];
+
+  for (const candidate of chain) {
+    const label = `${candidate.provider}/${candidate.modelId}`;
+    for (let attempt = 0; attempt <= policy.retries; attempt++) {
+      if (attempt > 0) await sleep(BACKOFF_BASE_MS * 2 ** (attempt - 1), signal);
+      if (signal?.aborted) return { ok: false, error: "aborted" };
+
+      const result = await attemptModel(
+        ctx, candidate.provider, candidate.modelId, systemPrompt, userPrompt, signal, onDelta, options
+      );
+      if (result.ok) return { ok: true, text: result.text, ...candidate };
+
+      errors.push(`${label}: ${result.error}${attempt > 0 ? ` (retry ${attempt})` : ""}`);
+      if (!result.transient) break; // not worth retrying — move on to the next model
+    }
+  }
+  return { ok: false, error: errors.join("; ") };
 }
 
 /**
- * Run a one-shot supervisor analysis.
- * Returns { action: "continue" } on any failure so the chat is never interrupted.
+ * Run a one-shot supervisor analysis through callModelWithRetries.
+ * When every model fails, returns a no-op { action: "continue" } carrying `error` so the caller
+ * can surface the failure instead of acting on it. `model` names whichever model answered, and
+ * `repair` is set when its response needed fixing before it could be used.
  */
 export async function callSupervisorModel(
   ctx: ExtensionContext,
@@ -90,34 +250,119 @@ export async function callSupervisorModel(
   systemPrompt: string,
   userPrompt: string,
   signal?: AbortSignal,
-  onDelta?: (accumulated: string) => void
+  onDelta?: (accumulated: string) => void,
+  options: CallOptions = {},
+  policy: RetryPolicy = { retries: 0, fallbacks: [] }
 ): Promise<SteeringDecision> {
-  const text = await callModel(ctx, provider, modelId, systemPrompt, userPrompt, signal, onDelta);
-  if (text === null) return safeContinue("Model call failed");
-  return parseDecision(text);
+  const result = await callModelWithRetries(ctx, provider, modelId, systemPrompt, userPrompt, signal, onDelta, options, policy);
+  if (!result.ok) {
+    return result.error === "aborted"
+      ? { ...safeContinue("Supervisor call aborted"), error: "aborted" }
+      : { ...safeContinue(`Supervisor unavailable — ${result.error}`), error: result.error };
+  }
+  const decision = await decideWithRepair(
+    ctx, result.provider, result.modelId, systemPrompt, result.text, signal, options
+  );
+  return { ...decision, model: `${result.provider}/${result.modelId}` };
 }
 
 // ---- Response parsing ----
 
-function parseDecision(text: string): SteeringDecision {
+type Parsed = { ok: true; decision: SteeringDecision } | { ok: false; error: string };
+
+/**
+ * Turn a response into a decision, repairing it when it is not valid JSON:
+ * first a tolerant local parse, then one follow-up call asking the same model to fix its output.
+ */
+async function decideWithRepair(
+  ctx: ExtensionContext,
+  provider: string,
+  modelId: string,
+  systemPrompt: string,
+  text: string,
+  signal: AbortSignal | undefined,
+  options: CallOptions
+): Promise<SteeringDecision> {
+  const strict = parseDecision(text);
+  if (strict.ok) return strict.decision;
+
+  const tolerant = validateDecision(repairJson(text));
+  if (tolerant.ok) return { ...tolerant.decision, repair: { method: "tolerant", ok: true, error: strict.error } };
+
+  const retry = await attemptModel(
+    ctx, provider, modelId, systemPrompt, correctionPrompt(text, strict.error), signal, undefined,
+    { onUsage: options.onUsage, timeoutMs: options.timeoutMs } // no tools — only the JSON needs fixing
+  );
+  if (retry.ok) {
+    const corrected = parseDecision(retry.text);
+    const fixed = corrected.ok ? corrected : validateDecision(repairJson(retry.text));
+    if (fixed.ok) return { ...fixed.decision, repair: { method: "reprompt", ok: true, error: strict.error } };
+  }
+
+  return {
+    ...safeContinue(`Failed to parse supervisor JSON decision — ${strict.error}`),
+    repair: { method: "reprompt", ok: false, error: strict.error },
+  };
+}
+
+function correctionPrompt(response: string, error: string): string {
+  return `Your previous response could not be used: ${error}
+
+PREVIOUS RESPONSE:
+${response}
+
+Reply again with the same decision as a single valid JSON object matching the required schema — no prose, no markdown fences.`;
+}
+
+function parseDecision(text: string): Parsed {
   const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/) ?? text.match(/(\{[\s\S]*\})/);
   const jsonStr = jsonMatch?.[1] ?? text.trim();
 
   try {
-    const parsed = JSON.parse(jsonStr) as Partial<SteeringDecision>;
-    const action = parsed.action;
-    if (action !== "continue" && action !== "steer" && action !== "done") {
-      return safeContinue("Invalid action in supervisor response");
-    }
-    return {
+    return validateDecision(JSON.parse(jsonStr));
+  } catch (err) {
+    return { ok: false, error: `invalid JSON (${err instanceof Error ? err.message : String(err)})` };
+  }
+}
+
+function validateDecision(value: unknown): Parsed {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { ok: false, error: "response is not a JSON object" };
+  }
+  const parsed = value as Partial<SteeringDecision>;
+  const action = parsed.action;
+  if (action !== "continue" && action !== "steer" && action !== "done") {
+    return { ok: false, error: `"action" must be "continue", "steer" or "done" (got ${JSON.stringify(action ?? null)})` };
+  }
+  return {
+    ok: true,
+    decision: {
       action,
       message: typeof parsed.message === "string" ? parsed.message.trim() : undefined,
       reasoning: typeof parsed.reasoning === "string" ? parsed.reasoning : "",
       confidence: typeof parsed.confidence === "number" ? parsed.confidence : 0.5,
-    };
-  } catch {
-    return safeContinue("Failed to parse supervisor JSON decision");
+      criteria: parseCriterionUpdates(parsed.criteria),
+    },
+  };
+}
+
+const CRITERION_STATUSES: CriterionStatus[] = ["pending", "in-progress", "met", "blocked"];
+
+/** Keep only well-formed { id, status, note? } entries; drop everything else silently. */
+function parseCriterionUpdates(raw: unknown): CriterionUpdate[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const updates: CriterionUpdate[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue;
+    const { id, status, note } = item as Record<string, unknown>;
+    if (typeof id !== "number" || !CRITERION_STATUSES.includes(status as CriterionStatus)) continue;
+    updates.push({
+      id,
+      status: status as CriterionStatus,
+      note: typeof note === "string" && note.trim() ? note.trim() : undefined,
+    });
   }
+  return updates;
 }
 
 function safeContinue(reason: string): SteeringDecision {
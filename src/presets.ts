@@ -0,0 +1,168 @@
+/**
+ * presets — a library of reusable outcome templates.
+ *
+ * A preset bundles an outcome text with a `{{details}}` placeholder, a sensitivity, optional
+ * acceptance criteria and an optional prompt variant. Built-in presets can be overridden or
+ * extended with one JSON file per preset, named after it:
+ *   ~/.pi/agent/supervisor-presets/<name>.json — global
+ *   <cwd>/.pi/supervisor-presets/<name>.json   — project (wins over global and built-in)
+ *
+ *   { "description": "…", "outcome": "Fix {{details}} …", "sensitivity": "high",
+ *     "criteria": ["…"], "prompt": "review" }
+ */
+
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { basename, extname, join } from "node:path";
+import type { Sensitivity, SensitivityProfile } from "./types.js";
+
+const PRESETS_DIR = "supervisor-presets";
+const DETAILS = /\{\{\s*details\s*\}\}/g;
+
+export interface OutcomePreset {
+  name: string;
+  description: string;
+  outcome: string;           // may contain {{details}}
+  sensitivity?: Sensitivity;
+  criteria?: string[];       // may contain {{details}}; derived from the outcome when absent
+  prompt?: string;           // prompt variant name (.pi/supervisors/<name>.md)
+  source: string;            // "built-in" or the file it came from
+}
+
+export const BUILTIN_PRESETS: OutcomePreset[] = [
+  {
+    name: "bugfix",
+    description: "Fix a bug and prove it with a regression test",
+    outcome: "Fix the bug: {{details}}. Add a regression test that fails without the fix and passes with it.",
+    sensitivity: "medium",
+    criteria: [
+      "The root cause of the bug is identified and fixed",
+      "A regression test reproduces the bug and passes with the fix",
+      "The existing test suite still passes",
+    ],
+    source: "built-in",
+  },
+  {
+    name: "tdd",
+    description: "Build a feature test-first",
+    outcome: "Implement {{details}} test-first: write failing tests for the behaviour, then the code that makes them pass.",
+    sensitivity: "high",
+    criteria: [
+      "Tests describing the feature are written before the implementation",
+      "The feature is implemented and its tests pass",
+      "The existing test suite still passes",
+    ],
+    source: "built-in",
+  },
+  {
+    name: "refactor",
+    description: "Restructure code with no change in behaviour",
+    outcome: "Refactor {{details}} without changing behaviour.",
+    sensitivity: "medium",
+    criteria: [
+      "The refactor described in the outcome is complete",
+      "Public behaviour and APIs are unchanged",
+      "The existing tests pass without being modified",
+    ],
+    source: "built-in",
+  },
+  {
+    name: "docs",
+    description: "Update documentation only",
+    outcome: "Update the documentation: {{details}}. Do not change code.",
+    sensitivity: "low",
+    criteria: [
+      "The documentation covers the requested change",
+      "Examples and commands in the changed docs are accurate",
+      "No files other than documentation are modified",
+    ],
+    source: "built-in",
+  },
+];
+
+/** Validate one preset from untrusted input. Returns null without a usable outcome; bad optional fields are dropped. */
+export function parsePreset(name: string, raw: unknown, source: string): OutcomePreset | null {
+  if (!/^[\w-]+$/.test(name) || !raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.outcome !== "string" || !r.outcome.trim()) return null;
+  const criteria = Array.isArray(r.criteria)
+    ? r.criteria.filter((c): c is string => typeof c === "string" && c.trim().length > 0).map((c) => c.trim())
+    : [];
+  return {
+    name,
+    description: typeof r.description === "string" && r.description.trim() ? r.description.trim() : r.outcome.trim(),
+    outcome: r.outcome.trim(),
+    sensitivity: typeof r.sensitivity === "string" && r.sensitivity.trim() ? r.sensitivity.trim() : undefined,
+    criteria: criteria.length > 0 ? criteria : undefined,
+    prompt: typeof r.prompt === "string" && /^[\w-]+$/.test(r.prompt) ? r.prompt : undefined,
+    source,
+  };
+}
+
+function readPresetDir(dir: string): OutcomePreset[] {
+  if (!existsSync(dir)) return [];
+  const presets: OutcomePreset[] = [];
+  try {
+    for (const file of readdirSync(dir)) {
+      if (extname(file) !== ".json") continue;
+      const path = join(dir, file);
+      try {
+        const preset = parsePreset(basename(file, ".json"), JSON.parse(readFileSync(path, "utf-8")), path);
+        if (preset) presets.push(preset);
+      } catch {
+        // unreadable or invalid JSON — skip this preset
+      }
+    }
+  } catch {
+    // unreadable directory — no presets from it
+  }
+  return presets;
+}
+
+/** Built-in, then global, then project presets; a later definition replaces an earlier one with the same name. */
+export function loadPresets(cwd: string): OutcomePreset[] {
+  const byName = new Map<string, OutcomePreset>();
+  for (const preset of [
+    ...BUILTIN_PRESETS,
+    ...readPresetDir(join(homedir(), ".pi", "agent", PRESETS_DIR)),
+    ...readPresetDir(join(cwd, ".pi", PRESETS_DIR)),
+  ]) {
+    byName.set(preset.name, preset);
+  }
+  return [...byName.values()];
+}
+
+/** Whether the preset's outcome has a {{details}} placeholder that must be filled. */
+export function needsDetails(preset: OutcomePreset): boolean {
+  return new RegExp(DETAILS.source).test(preset.outcome);
+}
+
+/**
+ * The outcome and criteria for a preset with `details` filled in.
+ * Details given to a preset without a placeholder are appended to the outcome.
+ */
+export function applyPreset(preset: OutcomePreset, details: string): { outcome: string; criteria: string[] } {
+  const fill = (text: string) => text.replace(DETAILS, () => details.trim());  // a function: no $-patterns in user text
+  const outcome = needsDetails(preset) || !details.trim()
+    ? fill(preset.outcome)
+    : `${preset.outcome} — ${details.trim()}`;
+  return { outcome, criteria: (preset.criteria ?? []).map(fill) };
+}
+
+/** Why the preset cannot be started with these sensitivity profiles, or null when it can. */
+export function presetError(preset: OutcomePreset, profiles: SensitivityProfile[]): string | null {
+  if (!preset.sensitivity || profiles.some((p) => p.name === preset.sensitivity)) return null;
+  return `Preset "${preset.name}" asks for sensitivity "${preset.sensitivity}", which is not a known profile ` +
+    `(${profiles.map((p) => p.name).join(", ")}). Fix it in ${preset.source}.`;
+}
+
+/** One line per preset for listings, e.g. "bugfix — Fix a bug … (medium · 3 criteria)". */
+export function describePreset(preset: OutcomePreset): string {
+  const extras = [
+    preset.sensitivity ?? "",
+    preset.criteria ? `${preset.criteria.length} criteria` : "",
+    preset.prompt ? `prompt: ${preset.prompt}` : "",
+    preset.source === "built-in" ? "" : "custom",
+  ].filter(Boolean).join(" · ");
+  return `${preset.name} — ${preset.description}${extras ? ` (${extras})` : ""}`;
+}
@@ -0,0 +1,129 @@
+/**
+ * profiles — named sensitivity profiles.
+ *
+ * The built-in levels (low, medium, high) are profiles too. Custom ones are defined under
+ * `profiles` in .pi/supervisor-config.json and extend a built-in level, overriding any field:
+ *
+ *   "profiles": { "strict": { "extends": "high", "steerThreshold": 0.95, "stagnationLimit": 3 } }
+ */
+
+import type { BuiltinSensitivity, SensitivityProfile } from "./types.js";
+
+export const BUILTIN_PROFILES: Record<BuiltinSensitivity, SensitivityProfile> = {
+  low: {
+    name: "low",
+    description: "Steer only when seriously off track (end of run only)",
+    base: "low",
+    cadence: 0,
+    startTurn: 2,
+    steerThreshold: 0.85,
+    snapshotShare: 0.03,
+    snapshotTokens: 3000,
+    snapshotToolCalls: 4,
+    toolOutputChars: 300,
+    stagnationLimit: 5,
+  },
+  medium: {
+    name: "medium",
+    description: "Steer on clear drift (end of run + every 3rd mid-turn)",
+    base: "medium",
+    cadence: 3,
+    startTurn: 2,
+    steerThreshold: 0.9, // higher bar mid-run — less willing to disrupt productive work
+    snapshotShare: 0.06,
+    snapshotTokens: 6000,
+    snapshotToolCalls: 8,
+    toolOutputChars: 600,
+    stagnationLimit: 5,
+  },
+  high: {
+    name: "high",
+    description: "Proactive steering (end of run + every mid-turn)",
+    base: "high",
+    cadence: 1,
+    startTurn: 2,
+    steerThreshold: 0.85,
+    snapshotShare: 0.12,
+    snapshotTokens: 12000,
+    snapshotToolCalls: 16,
+    toolOutputChars: 1200,
+    stagnationLimit: 5,
+  },
+};
+
+const NUMERIC_FIELDS = [
+  "cadence",
+  "startTurn",
+  "steerThreshold",
+  "snapshotShare",
+  "snapshotTokens",
+  "snapshotToolCalls",
+  "toolOutputChars",
+  "stagnationLimit",
+] as const;
+
+function isBuiltin(name: string): name is BuiltinSensitivity {
+  return name in BUILTIN_PROFILES;
+}
+
+/**
+ * Validate custom profiles from untrusted input. Each extends a built-in level ("medium" by default);
+ * fields of the wrong type or out of range are ignored. Built-in names cannot be redefined.
+ */
+export function parseProfiles(raw: unknown): Record<string, SensitivityProfile> {
+  const profiles: Record<string, SensitivityProfile> = {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return profiles;
+  for (const [name, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!/^[\w-]+$/.test(name) || isBuiltin(name) || !value || typeof value !== "object") continue;
+    const r = value as Record<string, unknown>;
+    const base: BuiltinSensitivity = typeof r.extends === "string" && isBuiltin(r.extends) ? r.extends : "medium";
+    const profile: SensitivityProfile = {
+      ...BUILTIN_PROFILES[base],
+      name,
+      description: typeof r.description === "string" && r.description.trim()
+        ? r.description.trim()
+        : `Custom profile based on "${base}"`,
+    };
+    for (const field of NUMERIC_FIELDS) {
+      const n = r[field];
+      if (typeof n !== "number" || !Number.isFinite(n) || n < 0) continue;
+      if (field === "snapshotShare" && n === 0) continue;
+      profile[field] = field === "steerThreshold" || field === "snapshotShare" ? Math.min(n, 1) : Math.floor(n);
+    }
+    profile.stagnationLimit = Math.max(1, profile.stagnationLimit);
+    profiles[name] = profile;
+  }
+  return profiles;
+}
+
+/** Built-in profiles first, then custom ones in definition order. */
+export function listProfiles(custom: Record<string, SensitivityProfile> = {}): SensitivityProfile[] {
+  return [...Object.values(BUILTIN_PROFILES), ...Object.values(custom)];
+}
+
+/** The profile for a sensitivity name. Unknown names (e.g. a profile since removed from config) fall back to "medium". */
+export function resolveProfile(name: string, custom: Record<string, SensitivityProfile> = {}): SensitivityProfile {
+  return isBuiltin(name) ? BUILTIN_PROFILES[name] : custom[name] ?? BUILTIN_PROFILES.medium;
+}
+
+const STEER_STANCE: Record<BuiltinSensitivity, string> = {
+  low: "steer only if seriously off track",
+  medium: "steer on clear drift",
+  high: "steer proactively",
+};
+
+/** When a profile checks and how readily it steers, in words for the supervisor prompt. */
+export function explainProfile(profile: SensitivityProfile): string {
+  const every = profile.cadence === 1 ? "after every tool cycle" : `every ${profile.cadence} tool cycles`;
+  const checks = profile.cadence === 0
+    ? "checked only at the end of each run"
+    : `checked at the end of each run and mid-run ${every} from cycle ${profile.startTurn}, ` +
+      `where a steer needs confidence ≥ ${profile.steerThreshold}`;
+  return `${checks}; ${STEER_STANCE[profile.base]}`;
+}
+
+/** Whether the mid-run check runs after this tool cycle (turn_end). */
+export function isMidRunCheck(profile: SensitivityProfile, turnIndex: number): boolean {
+  if (profile.cadence === 0 || turnIndex < profile.startTurn) return false;
+  return (turnIndex - profile.startTurn) % profile.cadence === 0;
+}
@@ -0,0 +1,95 @@
+/**
+ * prompt-template — variables and includes in custom supervisor prompts.
+ *
+ * A SUPERVISOR.md (or a named variant in .pi/supervisors/<name>.md) may use:
+ *   {{outcome}} {{sensitivity}} {{agentStatus}} {{interventions}} …   — filled in on every analysis
+ *   {{> name}}                                                           — include name.md, resolved
+ *                                                                          next to the including file
+ * A user-prompt template sits next to its system prompt as <name>.user.md (SUPERVISOR.user.md,
+ * review.user.md) and replaces the built-in user prompt; it sees the same variables, plus the
+ * conversation snapshot and the other per-analysis context.
+ * Unknown variables and missing partials are left as written, so typos stay visible.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { basename, dirname, extname, join, resolve } from "node:path";
+
+const VARIANTS_DIR = "supervisors";
+const USER_SUFFIX = ".user.md";
+const MAX_INCLUDE_DEPTH = 5;
+
+/** Values available to templates. */
+export interface PromptVariables {
+  outcome: string;
+  sensitivity: string;     // level or profile name
+  agentStatus: string;     // "idle" or "working"
+  interventions: string;   // the last few steers, one per line, or "None yet."
+  criteria: string;        // acceptance criteria with status, or "None."
+  turn: string;
+  model: string;           // supervisor model, "provider/modelId"
+  conversation: string;    // the conversation snapshot, one entry per message
+  summary: string;         // summary of earlier history after compaction, or ""
+  gitContext: string;      // repository state when `gitContext` is on, or ""
+  agentInstructions: string;  // what to return for the current agent status
+  stagnation: string;      // the lenient-standard warning when stagnating, or ""
+  workspaceTools: string;  // how to use the read-only tools when enabled, or ""
+  [name: string]: string;
+}
+
+/** Directories searched for named variants: the project's, then the global one. */
+function variantDirs(cwd: string): string[] {
+  return [join(cwd, ".pi", VARIANTS_DIR), join(homedir(), ".pi", "agent", VARIANTS_DIR)];
+}
+
+/** Path of a named prompt variant, or null if neither directory has it. */
+export function findPromptVariant(cwd: string, name: string): string | null {
+  if (!/^[\w-]+$/.test(name)) return null;
+  for (const dir of variantDirs(cwd)) {
+    const path = join(dir, `${name}.md`);
+    if (existsSync(path)) return path;
+  }
+  return null;
+}
+
+/** Names of all available variants, project ones first, without duplicates. */
+export function listPromptVariants(cwd: string): string[] {
+  const names = new Set<string>();
+  for (const dir of variantDirs(cwd)) {
+    if (!existsSync(dir)) continue;
+    try {
+      for (const file of readdirSync(dir)) {
+        if (extname(file) === ".md" && !file.endsWith(USER_SUFFIX)) names.add(basename(file, ".md"));
+      }
+    } catch {
+      // unreadable directory — nothing to list
+    }
+  }
+  return [...names];
+}
+
+/** The user-prompt template paired with a system prompt file: review.md → review.user.md. */
+export function userTemplatePath(systemPath: string): string {
+  const ext = extname(systemPath);
+  return `${ext ? systemPath.slice(0, -ext.length) : systemPath}${USER_SUFFIX}`;
+}
+
+/** Read a template file with its `{{> partial}}` includes expanded. Cycles and deep nesting stop expanding. */
+export function readTemplate(path: string, seen: string[] = []): string {
+  const text = readFileSync(path, "utf-8");
+  if (seen.length >= MAX_INCLUDE_DEPTH) return text;
+  return text.replace(/\{\{>\s*([^}\s]+)\s*\}\}/g, (tag, name: string) => {
+    const partial = resolve(dirname(path), extname(name) ? name : `${name}.md`);
+    if (partial === path || seen.includes(partial) || !existsSync(partial)) return tag;
+    try {
+      return readTemplate(partial, [...seen, path]).trim();
+    } catch {
+      return tag;
+    }
+  });
+}
+
+/** Fill in `{{name}}` variables. Only the variables' own keys count — `{{constructor}}` stays as written. */
+export function renderTemplate(template: string, vars: PromptVariables): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (tag, name: string) => Object.hasOwn(vars, name) ? vars[name] : tag);
+}
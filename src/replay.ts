@@ -0,0 +1,418 @@
+/**
+ * replay — runs the supervisor over a saved pi session, offline.
+ *
+ * Walks the session's current branch (the one ending at the last entry written) and, at every point
+ * where turn_end (on the profile's mid-run cadence) or agent_end fired while supervision was active,
+ * calls analyze() on the conversation as it stood then, with the supervisor state recorded at that
+ * moment. Decisions come from a pluggable client — the live supervisor model, the decisions recorded
+ * in the session, or a script — so SUPERVISOR.md and prompt changes can be regression-tested without
+ * running an agent. The resulting timeline is compared with what the supervisor actually did.
+ *
+ * Not replayed: verification commands, judge panels and tool-call guardrails. Git context and
+ * workspace tools see the repository as it is now, not as it was.
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { isAbsolute, join } from "node:path";
+import {
+  migrateSessionEntries,
+  parseSessionEntries,
+  type ExtensionContext,
+  type SessionEntry,
+} from "@mariozechner/pi-coding-agent";
+import type {
+  AcceptanceCriterion,
+  DecisionTier,
+  SteeringDecision,
+  SupervisorAction,
+  SupervisorState,
+} from "./types.js";
+import { analyze, gateDoneOnCriteria } from "./engine.js";
+import { callSupervisorModel, type SupervisorModelClient } from "./model-client.js";
+import { isMidRunCheck, resolveProfile } from "./profiles.js";
+import { isStateEntry, restoreState } from "./state.js";
+import { loadWorkspaceConfig, type WorkspaceModelConfig } from "./workspace-config.js";
+import type { ReportFormat } from "./report.js";
+
+export type ReplayEvent = "turn_end" | "agent_end";
+
+/** A decision, recorded in the session or produced by the replay. */
+export interface ReplayDecision {
+  action: SupervisorAction | "failed";
+  message?: string;
+  reasoning: string;
+  confidence?: number;
+  tier?: DecisionTier;
+  rule?: string;
+}
+
+/** One place in the session where the supervisor analyzed (or would have). */
+export interface ReplayPoint {
+  event: ReplayEvent;
+  run: number;               // agent run within the session, from 1
+  turnIndex: number;         // tool cycle within the run, from 0
+  end: number;               // index of the last branch entry visible at this point
+  timestamp: number;
+  state: SupervisorState;    // as recorded when the point was reached
+  stagnating: boolean;       // the stagnation limit of consecutive end-of-run steers was reached
+  recorded: ReplayDecision;  // "continue" when the session records nothing here
+}
+
+/** Picks the model client that answers each point. */
+export interface ReplayClient {
+  label: string;
+  clientFor(point: ReplayPoint): SupervisorModelClient;
+}
+
+export interface ReplayOptions {
+  client: ReplayClient;
+  model?: WorkspaceModelConfig;  // live runs: use this model instead of the one recorded in the session
+  prompts?: boolean;             // keep the prompts sent at every point in the result
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface ReplayStep {
+  point: number;
+  event: ReplayEvent;
+  run: number;
+  turnIndex: number;
+  timestamp: string;
+  recorded: ReplayDecision;
+  replayed: ReplayDecision;
+  diverged: boolean;             // the actions differ; differing steer texts are not a divergence
+  prompt?: { system: string; user: string };
+}
+
+export interface ReplayResult {
+  session: string;
+  client: string;
+  generatedAt: string;
+  steps: ReplayStep[];
+  summary: {
+    points: number;
+    agreed: number;
+    diverged: number;
+    transitions: Record<string, number>;  // "recorded → replayed" action pairs among divergences
+  };
+}
+
+const CONTINUE: ReplayDecision = { action: "continue", reasoning: "" };
+
+// ---- Clients ----
+
+/** The real supervisor model (and escalation model, if configured), as during supervision. */
+export function liveClient(model?: WorkspaceModelConfig): ReplayClient {
+  return {
+    label: model ? `live ${model.provider}/${model.modelId}` : "live (recorded supervisor model)",
+    clientFor: () => callSupervisorModel,
+  };
+}
+
+function asDecision(d: ReplayDecision): SteeringDecision {
+  return d.action === "failed"
+    ? { action: "continue", reasoning: d.reasoning, confidence: 0, error: d.reasoning || "recorded failure" }
+    : { action: d.action, message: d.message, reasoning: d.reasoning, confidence: d.confidence ?? 1 };
+}
+
+/** Answers every point with what the supervisor recorded there — exercises the pipeline for free. */
+export function recordedClient(): ReplayClient {
+  return {
+    label: "recorded",
+    clientFor: (point) => async () => asDecision(point.recorded),
+  };
+}
+
+/** Answers the points in order with scripted decisions; once the script runs out, "continue". */
+export function scriptedClient(label: string, script: ReplayDecision[]): ReplayClient {
+  let next = 0;
+  return {
+    label: `script ${label}`,
+    clientFor: () => {
+      const decision = script[next++] ?? CONTINUE;
+      return async () => asDecision(decision);
+    },
+  };
+}
+
+/** Validate a decision script: an array of { action, message?, reasoning?, confidence? }. Invalid items become "continue". */
+export function parseScript(raw: unknown): ReplayDecision[] | null {
+  if (!Array.isArray(raw)) return null;
+  return raw.map((item): ReplayDecision => {
+    const r = (item && typeof item === "object" ? item : {}) as Record<string, unknown>;
+    const action = r.action === "steer" || r.action === "done" || r.action === "continue" ? r.action : "continue";
+    return {
+      action,
+      message: action === "steer" && typeof r.message === "string" ? r.message : undefined,
+      reasoning: typeof r.reasoning === "string" ? r.reasoning : "scripted",
+      confidence: typeof r.confidence === "number" ? Math.min(1, Math.max(0, r.confidence)) : 1,
+    };
+  });
+}
+
+// ---- Session walking ----
+
+/** Entries of a saved session's current branch, root first. The file is only read. */
+export function readSessionBranch(path: string): SessionEntry[] {
+  const entries = parseSessionEntries(readFileSync(path, "utf-8"));
+  migrateSessionEntries(entries);
+  const byId = new Map<string, SessionEntry>();
+  for (const entry of entries) {
+    if (entry.type !== "session") byId.set(entry.id, entry as SessionEntry);
+  }
+  const branch: SessionEntry[] = [];
+  for (let entry = [...byId.values()].at(-1); entry; entry = entry.parentId ? byId.get(entry.parentId) : undefined) {
+    branch.unshift(entry);
+  }
+  return branch;
+}
+
+/** Everything the supervisor recorded doing — steers, shadow decisions, failures, "done" — with when it happened. */
+function recordedDecisions(branch: SessionEntry[]): Array<{ timestamp: number; decision: ReplayDecision }> {
+  const byKey = new Map<string, { timestamp: number; decision: ReplayDecision }>();
+  const add = (kind: string, timestamp: number, decision: ReplayDecision) => byKey.set(`${kind}:${timestamp}`, { timestamp, decision });
+  for (const entry of branch) {
+    if (!isStateEntry(entry)) continue;
+    const s = restoreState((entry as any).data as SupervisorState);
+    for (const iv of s.interventions) {
+      if (iv.guardrail) continue; // fired on a tool call, not at an analysis point
+      add("steer", iv.timestamp, { action: "steer", message: iv.proposedMessage ?? iv.message, reasoning: iv.reasoning, confidence: iv.confidence, tier: iv.tier });
+    }
+    for (const d of s.shadowLog) {
+      add("shadow", d.timestamp, { action: d.action, message: d.message, reasoning: d.reasoning, confidence: d.confidence, tier: d.tier });
+    }
+    for (const f of s.failures) add("failed", f.timestamp, { action: "failed", reasoning: f.error });
+    if (s.verdict?.result === "achieved" && s.endedAt) {
+      add("done", s.endedAt, { action: "done", reasoning: s.verdict.reasoning, confidence: s.verdict.confidence, tier: s.verdict.tier });
+    }
+  }
+  return [...byKey.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Points where turn_end or agent_end fired with supervision active. A turn is an assistant message
+ * plus its tool results; a run ends with an assistant message that did not stop to use a tool.
+ */
+export function findReplayPoints(branch: SessionEntry[], cwd: string): ReplayPoint[] {
+  const profiles = loadWorkspaceConfig(cwd).profiles;
+  const points: ReplayPoint[] = [];
+  let state: SupervisorState | null = null;
+  let run = 0;
+  let turnIndex = 0;
+  let inRun = false;
+
+  for (let i = 0; i < branch.length; i++) {
+    const entry = branch[i];
+    if (isStateEntry(entry)) {
+      state = restoreState((entry as any).data as SupervisorState);
+      continue;
+    }
+    if (entry.type !== "message") continue;
+    const message = entry.message as { role: string; stopReason?: string };
+    if (!inRun && (message.role === "user" || message.role === "assistant")) {
+      run++;
+      turnIndex = 0;
+      inRun = true;
+    }
+    if (message.role !== "assistant") continue;
+
+    let end = i;
+    for (let j = i + 1; j < branch.length; j++) {
+      const next = branch[j];
+      if (next.type !== "message") continue;
+      if ((next.message as { role: string }).role !== "toolResult") break;
+      end = j;
+    }
+    const runEnds = message.stopReason !== "toolUse";
+    if (state?.active) {
+      const timestamp = Date.parse(branch[end].timestamp);
+      const base = { run, turnIndex, end, timestamp, stagnating: false, recorded: CONTINUE };
+      if (isMidRunCheck(resolveProfile(state.sensitivity, profiles), turnIndex)) {
+        points.push({ ...base, event: "turn_end", state });
+      }
+      if (runEnds) points.push({ ...base, event: "agent_end", state: { ...state, turnCount: state.turnCount + 1 } });
+    }
+    turnIndex++;
+    if (runEnds) inRun = false;
+  }
+
+  // Each recorded decision belongs to the last point reached before it was made
+  for (const { timestamp, decision } of recordedDecisions(branch)) {
+    for (let i = points.length - 1; i >= 0; i--) {
+      if (points[i].timestamp > timestamp) continue;
+      points[i].recorded = decision;
+      break;
+    }
+  }
+
+  // Stagnation: consecutive end-of-run steers within one supervision, as counted live
+  let idleSteers = 0;
+  let startedAt: number | undefined;
+  for (const point of points) {
+    if (point.event !== "agent_end") continue;
+    if (point.state.startedAt !== startedAt) {
+      startedAt = point.state.startedAt;
+      idleSteers = 0;
+    }
+    point.stagnating = idleSteers >= resolveProfile(point.state.sensitivity, profiles).stagnationLimit;
+    idleSteers = point.recorded.action === "steer" ? idleSteers + 1 : point.recorded.action === "done" ? 0 : idleSteers;
+  }
+  return points;
+}
+
+/** A context whose session ends at `visible`; everything else is the live one. */
+function replayContext(ctx: ExtensionContext, visible: SessionEntry[]): ExtensionContext {
+  const sessionManager = Object.assign(Object.create(ctx.sessionManager), {
+    getBranch: () => visible,
+    getEntries: () => visible,
+    getLeafId: () => visible.at(-1)?.id ?? null,
+    getLeafEntry: () => visible.at(-1),
+  });
+  return { ...ctx, hasUI: false, sessionManager, isIdle: () => true };
+}
+
+/** Open criteria once the analysis's status updates are applied — what the live handler gates "done" on. */
+function openAfter(criteria: AcceptanceCriterion[], decision: SteeringDecision): AcceptanceCriterion[] {
+  const updated = new Map((decision.criteria ?? []).map((u) => [u.id, u.status]));
+  return criteria.filter((c) => (updated.get(c.id) ?? c.status) !== "met");
+}
+
+// ---- Running ----
+
+/** Replay a saved session and compare every decision with the recorded one. */
+export async function runReplay(ctx: ExtensionContext, path: string, options: ReplayOptions): Promise<ReplayResult> {
+  const branch = readSessionBranch(path);
+  const points = findReplayPoints(branch, ctx.cwd);
+  const config = loadWorkspaceConfig(ctx.cwd);
+  const steps: ReplayStep[] = [];
+
+  for (const [index, point] of points.entries()) {
+    if (options.signal?.aborted) break;
+    options.onProgress?.(index, points.length);
+
+    const state = options.model ? { ...point.state, ...options.model } : point.state;
+    const client = options.client.clientFor(point);
+    let prompt: ReplayStep["prompt"];
+    const capture: SupervisorModelClient = (c, provider, modelId, system, user, ...rest) => {
+      if (options.prompts) prompt = { system, user };
+      return client(c, provider, modelId, system, user, ...rest);
+    };
+
+    const agentEnd = point.event === "agent_end";
+    const raw = await analyze(
+      replayContext(ctx, branch.slice(0, point.end + 1)), state, agentEnd, point.stagnating,
+      options.signal, undefined, undefined, capture, config
+    );
+
+    // The same post-processing as the live turn_end / agent_end handlers
+    let replayed: ReplayDecision;
+    if (raw.error) {
+      replayed = { action: "failed", reasoning: raw.error };
+    } else {
+      const profile = resolveProfile(state.sensitivity, config.profiles);
+      const decision = agentEnd
+        ? gateDoneOnCriteria(raw, openAfter(state.criteria, raw), point.stagnating)
+        : raw.action === "steer" && raw.message && raw.confidence >= profile.steerThreshold ? raw : { ...raw, action: "continue" as const };
+      replayed = {
+        action: decision.action,
+        message: decision.action === "steer" ? decision.message : undefined,
+        reasoning: decision.reasoning,
+        confidence: decision.confidence,
+        tier: decision.tier,
+        rule: decision.rule,
+      };
+    }
+
+    steps.push({
+      point: index + 1,
+      event: point.event,
+      run: point.run,
+      turnIndex: point.turnIndex,
+      timestamp: new Date(point.timestamp).toISOString(),
+      recorded: point.recorded,
+      replayed,
+      diverged: replayed.action !== point.recorded.action,
+      prompt,
+    });
+  }
+  options.onProgress?.(steps.length, points.length);
+
+  const transitions: Record<string, number> = {};
+  for (const step of steps.filter((s) => s.diverged)) {
+    const key = `${step.recorded.action} → ${step.replayed.action}`;
+    transitions[key] = (transitions[key] ?? 0) + 1;
+  }
+  const diverged = steps.filter((s) => s.diverged).length;
+  return {
+    session: path,
+    client: options.client.label,
+    generatedAt: new Date().toISOString(),
+    steps,
+    summary: { points: steps.length, agreed: steps.length - diverged, diverged, transitions },
+  };
+}
+
+// ---- Output ----
+
+export function formatReplay(result: ReplayResult, format: ReportFormat): string {
+  return format === "json" ? JSON.stringify(result, null, 2) + "\n" : formatMarkdown(result);
+}
+
+/**
+ * Write the replay result and return the absolute path.
+ * Without a path, writes supervisor-replay-<timestamp>.<ext> into `cwd`.
+ */
+export function writeReplay(cwd: string, result: ReplayResult, format: ReportFormat, path?: string): string {
+  const stamp = result.generatedAt.replace(/[:.]/g, "-").replace(/-\d{3}Z$/, "Z");
+  const target = path
+    ? (isAbsolute(path) ? path : join(cwd, path))
+    : join(cwd, `supervisor-replay-${stamp}.${format}`);
+  writeFileSync(target, formatReplay(result, format), "utf-8");
+  return target;
+}
+
+/** "steer (0.92) ⇈" — action, confidence and escalation mark for the timeline table. */
+function describeDecision(d: ReplayDecision): string {
+  const confidence = d.confidence !== undefined && d.action !== "failed" ? ` (${d.confidence.toFixed(2)})` : "";
+  return `${d.action}${confidence}${d.tier === "escalation" ? " ⇈" : ""}${d.rule ? ` rule ${d.rule}` : ""}`;
+}
+
+function formatMarkdown(r: ReplayResult): string {
+  const where = (s: ReplayStep) => `run ${s.run}, ${s.event === "agent_end" ? "end of run" : `tool cycle ${s.turnIndex}`}`;
+  const lines: string[] = [
+    "# Supervisor Replay",
+    "",
+    `**Session:** ${r.session}`,
+    "",
+    "| | |",
+    "|---|---|",
+    `| Client | ${r.client} |`,
+    `| Points | ${r.summary.points} |`,
+    `| Agreed | ${r.summary.agreed} |`,
+    `| Diverged | ${r.summary.diverged} |`,
+  ];
+
+  lines.push("", "## Divergences", "");
+  if (r.summary.diverged === 0) {
+    lines.push("None.");
+  } else {
+    for (const [transition, count] of Object.entries(r.summary.transitions)) lines.push(`- ${transition}: ${count}`);
+    lines.push("");
+    for (const s of r.steps.filter((s) => s.diverged)) {
+      lines.push(`### Point ${s.point} · ${where(s)} · ${s.timestamp}`, "");
+      lines.push(`- **Recorded:** ${describeDecision(s.recorded)}${s.recorded.reasoning ? ` — ${s.recorded.reasoning}` : ""}`);
+      if (s.recorded.message) lines.push(`  > ${s.recorded.message.split("\n").join(" ")}`);
+      lines.push(`- **Replayed:** ${describeDecision(s.replayed)}${s.replayed.reasoning ? ` — ${s.replayed.reasoning}` : ""}`);
+      if (s.replayed.message) lines.push(`  > ${s.replayed.message.split("\n").join(" ")}`);
+      lines.push("");
+    }
+  }
+
+  lines.push("", "## Timeline", "", "| # | Where | Recorded | Replayed | |", "|---|---|---|---|---|");
+  for (const s of r.steps) {
+    lines.push(`| ${s.point} | ${where(s)} | ${describeDecision(s.recorded)} | ${describeDecision(s.replayed)} | ${s.diverged ? "≠" : ""} |`);
+  }
+
+  lines.push("", `_Generated ${r.generatedAt} by pi-supervisor._`, "");
+  return lines.join("\n");
+}
@@ -0,0 +1,298 @@
+/**
+ * report — exports a supervision run as Markdown or JSON.
+ *
+ * Used by `/supervise report [--json|--md] [path]` to attach supervision results
+ * to PRs and compare runs. Works on the current or most recent supervision.
+ */
+
+import { writeFileSync } from "node:fs";
+import { extname, isAbsolute, join } from "node:path";
+import { describeBudgets } from "./budgets.js";
+import { describeGuardrails } from "./guardrails.js";
+import { describeVotes } from "./judges.js";
+import type {
+  AcceptanceCriterion,
+  DecisionTier,
+  GoalSummary,
+  GuardrailPolicy,
+  JudgePanel,
+  Sensitivity,
+  SupervisionBudgets,
+  SupervisionResult,
+  SupervisionVerdict,
+  SupervisorAction,
+  SteerDisposition,
+  SupervisorState,
+  UsageTotals,
+} from "./types.js";
+
+export type ReportFormat = "json" | "md";
+
+export interface SupervisionReport {
+  generatedAt: string;                       // ISO timestamps throughout
+  outcome: string;
+  model: string;                             // "provider/modelId"
+  sensitivity: Sensitivity;
+  prompt: string | null;                     // named prompt variant, null for the default prompt
+  baseCommit: string | null;                 // git base progress was measured against
+  status: "active" | SupervisionResult;
+  shadow: boolean;                           // decisions were logged, not acted on
+  startedAt: string;
+  endedAt: string | null;
+  durationSeconds: number;
+  turnCount: number;
+  criteria: AcceptanceCriterion[];
+  verifyCommands: string[];
+  budgets: SupervisionBudgets;
+  guardrails: GuardrailPolicy;
+  usage: UsageTotals;
+  interventions: Array<{
+    turnCount: number;
+    timestamp: string;
+    message: string;
+    reasoning: string;
+    confidence: number | null;
+    disposition: SteerDisposition | null;  // null: delivered without review
+    proposedMessage: string | null;        // the supervisor's text, when the user edited it
+    guardrail: string | null;              // the violated guardrail, for tool-call interventions
+    judges: JudgePanel | null;             // the panel that rejected "done", when it did
+    tier: DecisionTier | null;             // which model decided, when an escalation model is configured
+  }>;
+  shadowDecisions: Array<{
+    turnCount: number;
+    timestamp: string;
+    midRun: boolean;
+    action: SupervisorAction;
+    message: string | null;
+    reasoning: string;
+    confidence: number;
+    tier: DecisionTier | null;
+  }>;
+  failures: Array<{ turnCount: number; timestamp: string; error: string }>;  // analyses no model could answer
+  repairs: Array<{ turnCount: number; timestamp: string; method: "tolerant" | "reprompt"; ok: boolean; error: string; model: string | null }>;
+  verdict: SupervisionVerdict | null;
+  completedGoals: GoalSummary[];             // earlier goals of the same queue sequence
+  queuedGoals: string[];
+}
+
+export function buildReport(state: SupervisorState, completedGoals: GoalSummary[], queuedGoals: string[]): SupervisionReport {
+  const end = state.endedAt ?? Date.now();
+  return {
+    generatedAt: new Date().toISOString(),
+    outcome: state.outcome,
+    model: `${state.provider}/${state.modelId}`,
+    sensitivity: state.sensitivity,
+    prompt: state.prompt ?? null,
+    baseCommit: state.baseCommit ?? null,
+    status: state.active ? "active" : state.verdict?.result ?? "stopped",
+    shadow: state.shadow,
+    startedAt: new Date(state.startedAt).toISOString(),
+    endedAt: state.endedAt ? new Date(state.endedAt).toISOString() : null,
+    durationSeconds: Math.round((end - state.startedAt) / 1000),
+    turnCount: state.turnCount,
+    criteria: state.criteria,
+    verifyCommands: state.verifyCommands,
+    budgets: state.budgets,
+    guardrails: state.guardrails,
+    usage: state.usage,
+    interventions: state.interventions.map((iv) => ({
+      turnCount: iv.turnCount,
+      timestamp: new Date(iv.timestamp).toISOString(),
+      message: iv.message,
+      reasoning: iv.reasoning,
+      confidence: iv.confidence ?? null,
+      disposition: iv.disposition ?? null,
+      proposedMessage: iv.proposedMessage ?? null,
+      guardrail: iv.guardrail ?? null,
+      judges: iv.judges ?? null,
+      tier: iv.tier ?? null,
+    })),
+    shadowDecisions: state.shadowLog.map((d) => ({
+      turnCount: d.turnCount,
+      timestamp: new Date(d.timestamp).toISOString(),
+      midRun: d.midRun,
+      action: d.action,
+      message: d.message ?? null,
+      reasoning: d.reasoning,
+      confidence: d.confidence,
+      tier: d.tier ?? null,
+    })),
+    failures: state.failures.map((f) => ({
+      turnCount: f.turnCount,
+      timestamp: new Date(f.timestamp).toISOString(),
+      error: f.error,
+    })),
+    repairs: state.repairs.map((r) => ({
+      turnCount: r.turnCount,
+      timestamp: new Date(r.timestamp).toISOString(),
+      method: r.method,
+      ok: r.ok,
+      error: r.error,
+      model: r.model ?? null,
+    })),
+    verdict: state.verdict ?? null,
+    completedGoals,
+    queuedGoals,
+  };
+}
+
+export function formatReport(report: SupervisionReport, format: ReportFormat): string {
+  return format === "json" ? JSON.stringify(report, null, 2) + "\n" : formatMarkdown(report);
+}
+
+/**
+ * Write the report and return the absolute path.
+ * Without a path, writes supervisor-report-<timestamp>.<ext> into `cwd`.
+ */
+export function writeReport(cwd: string, report: SupervisionReport, format: ReportFormat, path?: string): string {
+  const stamp = report.generatedAt.replace(/[:.]/g, "-").replace(/-\d{3}Z$/, "Z");
+  const target = path
+    ? (isAbsolute(path) ? path : join(cwd, path))
+    : join(cwd, `supervisor-report-${stamp}.${format}`);
+  writeFileSync(target, formatReport(report, format), "utf-8");
+  return target;
+}
+
+/** Infer the format from an explicit flag, else the file extension, else Markdown. */
+export function resolveReportFormat(flag: ReportFormat | undefined, path: string | undefined): ReportFormat {
+  if (flag) return flag;
+  return path && extname(path).toLowerCase() === ".json" ? "json" : "md";
+}
+
+// ---- Markdown ----
+
+function formatMarkdown(r: SupervisionReport): string {
+  const lines: string[] = [
+    "# Supervision Report",
+    "",
+    `**Outcome:** ${r.outcome}`,
+    "",
+    "| | |",
+    "|---|---|",
+    `| Status | ${r.status}${r.shadow ? " (shadow — nothing was sent)" : ""} |`,
+    `| Model | \`${r.model}\` |`,
+    `| Sensitivity | ${r.sensitivity} |`,
+    `| Prompt | ${r.prompt ?? "default"} |`,
+    ...(r.baseCommit ? [`| Base commit | \`${r.baseCommit.slice(0, 12)}\` |`] : []),
+    `| Started | ${r.startedAt} |`,
+    `| Ended | ${r.endedAt ?? "—"} |`,
+    `| Duration | ${formatDuration(r.durationSeconds)} |`,
+    `| Agent runs | ${r.turnCount} |`,
+    `| Interventions | ${r.interventions.length} |`,
+  ];
+
+  if (r.verifyCommands.length > 0) {
+    lines.push(`| Verification | ${r.verifyCommands.map((c) => `\`${c}\``).join(", ")} |`);
+  }
+
+  if (r.usage.calls > 0) {
+    const u = r.usage;
+    lines.push(
+      `| Supervisor usage | ${u.calls} calls · ${u.input} in / ${u.output} out / ${u.cacheRead + u.cacheWrite} cache tokens · ` +
+        `$${u.cost.toFixed(4)} · ${(u.latencyMs / 1000).toFixed(1)}s |`
+    );
+  }
+
+  if (r.repairs.length > 0) {
+    const failed = r.repairs.filter((rp) => !rp.ok).length;
+    lines.push(`| JSON repairs | ${r.repairs.length}${failed > 0 ? ` (${failed} failed)` : ""} |`);
+  }
+
+  if (describeBudgets(r.budgets)) {
+    lines.push(`| Budgets | ${describeBudgets(r.budgets)} |`);
+  }
+
+  if (describeGuardrails(r.guardrails)) {
+    lines.push(`| Guardrails | ${describeGuardrails(r.guardrails)} |`);
+  }
+
+  if (r.verdict) {
+    lines.push("", "## Final Verdict", "", `**${r.verdict.result}**` +
+      (r.verdict.confidence !== undefined ? ` (confidence ${r.verdict.confidence.toFixed(2)})` : "") +
+      (r.verdict.tier === "escalation" ? " · escalation model" : ""));
+    if (r.verdict.reasoning) lines.push("", r.verdict.reasoning);
+    if (r.verdict.judges) lines.push("", ...formatJudgePanel(r.verdict.judges));
+  }
+
+  if (r.criteria.length > 0) {
+    lines.push("", "## Acceptance Criteria", "");
+    for (const c of r.criteria) {
+      const box = c.status === "met" ? "x" : " ";
+      const status = c.status === "met" ? "" : ` _(${c.status})_`;
+      lines.push(`- [${box}] ${c.text}${status}${c.note ? ` — ${c.note}` : ""}`);
+    }
+  }
+
+  lines.push("", "## Interventions", "");
+  if (r.interventions.length === 0) {
+    lines.push("None.", "");
+  } else {
+    r.interventions.forEach((iv, i) => {
+      const confidence = iv.confidence !== null ? ` · confidence ${iv.confidence.toFixed(2)}` : "";
+      const disposition = iv.guardrail
+        ? ` · guardrail${iv.disposition ? ` · ${iv.disposition}` : ""}`
+        : iv.disposition ? ` · ${iv.disposition}` : "";
+      const tier = iv.tier === "escalation" ? " · escalation model" : "";
+      lines.push(`### ${i + 1}. Run ${iv.turnCount} · ${iv.timestamp}${confidence}${disposition}${tier}`, "");
+      lines.push(...iv.message.split("\n").map((l) => `> ${l}`), "");
+      if (iv.proposedMessage) lines.push(`_Proposed:_ ${iv.proposedMessage}`, "");
+      if (iv.reasoning) lines.push(`_Reasoning:_ ${iv.reasoning}`, "");
+      if (iv.judges) lines.push(...formatJudgePanel(iv.judges), "");
+    });
+  }
+
+  if (r.shadowDecisions.length > 0) {
+    lines.push("## Shadow Decisions", "");
+    for (const d of r.shadowDecisions) {
+      const when = `Run ${d.turnCount}${d.midRun ? " (mid-run)" : ""} · ${d.timestamp} · confidence ${d.confidence.toFixed(2)}` +
+        (d.tier === "escalation" ? " · escalation model" : "");
+      const what = d.action === "steer" ? `would steer: "${d.message}"` : d.action === "done" ? "would finish" : "would continue";
+      lines.push(`- ${when} — ${what}${d.reasoning ? ` _(${d.reasoning})_` : ""}`);
+    }
+    lines.push("");
+  }
+
+  if (r.repairs.length > 0) {
+    lines.push("## Response Repairs", "");
+    for (const rp of r.repairs) {
+      lines.push(`- Run ${rp.turnCount} · ${rp.timestamp}${rp.model ? ` · ${rp.model}` : ""} — ${rp.method}, ${rp.ok ? "recovered" : "failed"}: ${rp.error}`);
+    }
+    lines.push("");
+  }
+
+  if (r.failures.length > 0) {
+    lines.push("## Supervisor Failures", "");
+    for (const f of r.failures) lines.push(`- Run ${f.turnCount} · ${f.timestamp} — ${f.error}`);
+    lines.push("");
+  }
+
+  if (r.completedGoals.length > 0 || r.queuedGoals.length > 0) {
+    lines.push("## Goal Queue", "");
+    for (const g of r.completedGoals) {
+      const criteria = g.criteriaTotal > 0 ? `, ${g.criteriaMet}/${g.criteriaTotal} criteria` : "";
+      lines.push(`- ✓ ${g.outcome} — ${g.turnCount} runs, ${g.steers} steers${criteria}, ${formatDuration(Math.round((g.endedAt - g.startedAt) / 1000))}`);
+    }
+    for (const q of r.queuedGoals) lines.push(`- ○ ${q}`);
+    lines.push("");
+  }
+
+  lines.push(`_Generated ${r.generatedAt} by pi-supervisor._`, "");
+  return lines.join("\n");
+}
+
+function formatDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return h > 0 ? `${h}h ${m}m` : m > 0 ? `${m}m ${s}s` : `${s}s`;
+}
+
+/** The judge panel's outcome, then one bullet per vote. */
+function formatJudgePanel(panel: JudgePanel): string[] {
+  return [
+    `_Judges (${panel.rule}):_ ${panel.accepted ? "confirmed done" : "rejected done"} — ${describeVotes(panel.votes)}`,
+    ...panel.votes.map((v) =>
+      `- ${v.model}: **${v.vote}**${v.vote === "abstain" ? "" : ` (confidence ${v.confidence.toFixed(2)})`}${v.reasoning ? ` — ${v.reasoning}` : ""}`
+    ),
+  ];
+}
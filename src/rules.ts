@@ -0,0 +1,113 @@
+/**
+ * rules — deterministic checks that run before the supervisor model.
+ *
+ * Rules come from .pi/supervisor-rules.json (an array, or { "rules": [...] }) and the
+ * "rules" key of .pi/supervisor-config.json. Each rule is a regex matched against the
+ * current run (everything since the last user message):
+ *   - "steer" rules force a steer — by default without calling the model at all
+ *   - "forbid-done" rules turn a "done" verdict into a steer while the pattern is present
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { ConversationMessage } from "./types.js";
+
+const RULES_FILE = join(".pi", "supervisor-rules.json");
+const MAX_EXCERPT = 120;
+
+export type RuleEffect = "steer" | "forbid-done";
+
+/** Which messages a rule scans: assistant text, tool calls with their output, or both. */
+export type RuleScope = "assistant" | "tool" | "any";
+
+export interface SupervisorRule {
+  id: string;
+  pattern: RegExp;
+  scope: RuleScope;
+  effect: RuleEffect;
+  message?: string;    // fixed steer text; a generic one naming the rule is used otherwise
+  skipModel: boolean;  // "steer" rules only: decide without calling the model
+}
+
+export interface RuleHit {
+  rule: SupervisorRule;
+  excerpt: string;     // the matched text with a little context
+}
+
+/**
+ * Validate raw rule definitions. Entries without an id or with an invalid regex are dropped.
+ * Accepts an array or an object with a "rules" array.
+ */
+export function parseRules(raw: unknown): SupervisorRule[] {
+  const list = Array.isArray(raw) ? raw : (raw as { rules?: unknown } | null)?.rules;
+  if (!Array.isArray(list)) return [];
+  const rules: SupervisorRule[] = [];
+  for (const item of list) {
+    if (!item || typeof item !== "object") continue;
+    const r = item as Record<string, unknown>;
+    if (typeof r.id !== "string" || !r.id.trim() || typeof r.match !== "string" || !r.match) continue;
+    let pattern: RegExp;
+    try {
+      // Stateful flags would make repeated .test() calls skip matches
+      pattern = new RegExp(r.match, typeof r.flags === "string" ? r.flags.replace(/[gy]/g, "") : "i");
+    } catch {
+      continue;
+    }
+    const effect: RuleEffect = r.effect === "forbid-done" ? "forbid-done" : "steer";
+    rules.push({
+      id: r.id.trim(),
+      pattern,
+      scope: r.in === "tool" || r.in === "any" ? r.in : "assistant",
+      effect,
+      message: typeof r.message === "string" && r.message.trim() ? r.message.trim() : undefined,
+      skipModel: effect === "steer" && r.skipModel !== false,
+    });
+  }
+  return rules;
+}
+
+/** Read <cwd>/.pi/supervisor-rules.json. Returns [] if absent or unreadable. */
+export function loadRulesFile(cwd: string): SupervisorRule[] {
+  const path = join(cwd, RULES_FILE);
+  if (!existsSync(path)) return [];
+  try {
+    return parseRules(JSON.parse(readFileSync(path, "utf-8")));
+  } catch {
+    return [];
+  }
+}
+
+/** Rules with the given effect that match any in-scope message, in definition order. */
+export function matchRules(rules: SupervisorRule[], messages: ConversationMessage[], effect: RuleEffect): RuleHit[] {
+  const hits: RuleHit[] = [];
+  for (const rule of rules) {
+    if (rule.effect !== effect) continue;
+    for (const m of messages) {
+      if (m.role === "user") continue;
+      if (rule.scope !== "any" && rule.scope !== m.role) continue;
+      const match = rule.pattern.exec(m.content);
+      if (match) {
+        hits.push({ rule, excerpt: excerptAround(m.content, match.index, match[0].length) });
+        break;
+      }
+    }
+  }
+  return hits;
+}
+
+/** The steer text for a hit: the rule's fixed message, or a generic one quoting the match. */
+export function ruleMessage(hit: RuleHit): string {
+  if (hit.rule.message) return hit.rule.message;
+  return hit.rule.effect === "forbid-done"
+    ? `Not done yet — "${hit.excerpt}" is still present (rule "${hit.rule.id}"). Resolve it before finishing.`
+    : `Rule "${hit.rule.id}" flagged: "${hit.excerpt}". Deal with this now instead of deferring or skipping it.`;
+}
+
+function excerptAround(text: string, index: number, length: number): string {
+  const context = Math.max(0, Math.floor((MAX_EXCERPT - length) / 2));
+  const start = Math.max(0, index - context);
+  const end = Math.min(text.length, index + length + context);
+  const excerpt = text.slice(start, end).replace(/\s+/g, " ").trim();
+  const clipped = excerpt.length > MAX_EXCERPT ? excerpt.slice(0, MAX_EXCERPT - 1) + "…" : excerpt;
+  return `${start > 0 ? "…" : ""}${clipped}${end < text.length && !clipped.endsWith("…") ? "…" : ""}`;
+}
@@ -2,41 +2,125 @@
  * SupervisorStateManager — manages in-memory supervisor state and session persistence.
  */
 
-import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
-import type { SupervisorState, SupervisorIntervention, Sensitivity } from "./types.js";
+import type { ExtensionAPI, ExtensionContext, SessionEntry } from "@mariozechner/pi-coding-agent";
+import type {
+  SupervisorState,
+  SupervisorIntervention,
+  SupervisorFailure,
+  RepairRecord,
+  ShadowDecision,
+  SupervisionVerdict,
+  SupervisionBudgets,
+  GuardrailPolicy,
+  CallUsage,
+  UsageTotals,
+  Sensitivity,
+  SteerDelivery,
+  AcceptanceCriterion,
+  CriterionUpdate,
+  QueuedGoal,
+  GoalSummary,
+  GoalQueueState,
+} from "./types.js";
+import { emitSupervisorEvent } from "./events.js";
 
 const ENTRY_TYPE = "supervisor-state";
+const QUEUE_ENTRY_TYPE = "supervisor-queue";
 
 export const DEFAULT_PROVIDER = "anthropic";
 export const DEFAULT_MODEL_ID = "claude-haiku-4-5-20251001";
 export const DEFAULT_SENSITIVITY: Sensitivity = "medium";
 
+/** Optional extras for start(). */
+export interface StartOptions {
+  criteria?: string[];
+  verifyCommands?: string[];
+  budgets?: SupervisionBudgets;
+  guardrails?: GuardrailPolicy;
+  initialUsage?: CallUsage[];  // calls made while setting up (e.g. deriving criteria)
+  delivery?: SteerDelivery;
+  shadow?: boolean;
+  prompt?: string;           // named prompt variant
+  baseCommit?: string;       // from recordBaseCommit(); absent outside git
+}
+
+export function emptyUsage(): UsageTotals {
+  return { calls: 0, input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, latencyMs: 0 };
+}
+
+/** Steers that actually reached the agent — rejected proposals and blocked tool calls don't count. */
+export function deliveredSteers(state: SupervisorState): number {
+  return state.interventions.filter((iv) => iv.disposition !== "rejected" && iv.disposition !== "blocked").length;
+}
+
+/** Whether a session entry is a persisted supervisor state snapshot. */
+export function isStateEntry(entry: SessionEntry): boolean {
+  return entry.type === "custom" && (entry as any).customType === ENTRY_TYPE;
+}
+
+/** A persisted state snapshot, with the fields older versions did not write filled in. */
+export function restoreState(data: SupervisorState): SupervisorState {
+  return {
+    ...data,
+    criteria: data.criteria ?? [],
+    verifyCommands: data.verifyCommands ?? [],
+    budgets: data.budgets ?? {},
+    guardrails: data.guardrails ?? {},
+    usage: data.usage ?? emptyUsage(),
+    delivery: data.delivery ?? "auto",
+    shadow: data.shadow ?? false,
+    shadowLog: data.shadowLog ?? [],
+    failures: data.failures ?? [],
+    repairs: data.repairs ?? [],
+  };
+}
+
 export class SupervisorStateManager {
   private state: SupervisorState | null = null;
+  private goals: GoalQueueState = { queue: [], completed: [] };
   private pi: ExtensionAPI;
 
   constructor(pi: ExtensionAPI) {
     this.pi = pi;
   }
 
-  start(outcome: string, provider: string, modelId: string, sensitivity: Sensitivity): void {
+  start(outcome: string, provider: string, modelId: string, sensitivity: Sensitivity, options: StartOptions = {}): void {
     this.state = {
       active: true,
       outcome,
       provider,
       modelId,
       sensitivity,
+      prompt: options.prompt,
+      criteria: (options.criteria ?? []).map((text, i) => ({ id: i + 1, text, status: "pending" })),
+      verifyCommands: options.verifyCommands ?? [],
+      budgets: options.budgets ?? {},
+      guardrails: options.guardrails ?? {},
+      baseCommit: options.baseCommit,
+      usage: emptyUsage(),
+      delivery: options.delivery ?? "auto",
+      shadow: options.shadow ?? false,
+      shadowLog: [],
+      failures: [],
+      repairs: [],
       interventions: [],
       startedAt: Date.now(),
       turnCount: 0,
     };
+    for (const usage of options.initialUsage ?? []) this.recordUsage(usage);
     this.persist();
+    emitSupervisorEvent(this.pi.events, "supervisor:started", { state: this.state });
   }
 
-  stop(): void {
+  /** End supervision. The verdict defaults to a manual stop. */
+  stop(verdict: SupervisionVerdict = { result: "stopped", reasoning: "Stopped by user" }): void {
     if (!this.state) return;
+    const wasActive = this.state.active;
     this.state.active = false;
+    this.state.endedAt = Date.now();
+    this.state.verdict = verdict;
     this.persist();
+    if (wasActive) emitSupervisorEvent(this.pi.events, "supervisor:stopped", { state: this.state, verdict });
   }
 
   isActive(): boolean {
@@ -53,6 +137,59 @@ export class SupervisorStateManager {
     this.persist();
   }
 
+  addFailure(failure: SupervisorFailure): void {
+    if (!this.state) return;
+    this.state.failures.push(failure);
+    this.persist();
+  }
+
+  addShadowDecision(decision: ShadowDecision): void {
+    if (!this.state) return;
+    this.state.shadowLog.push(decision);
+    this.persist();
+  }
+
+  addRepair(repair: RepairRecord): void {
+    if (!this.state) return;
+    this.state.repairs.push(repair);
+    this.persist();
+  }
+
+  /** Apply supervisor-reported status changes. Unknown ids are ignored. Returns true if anything changed. */
+  updateCriteria(updates: CriterionUpdate[]): boolean {
+    if (!this.state || updates.length === 0) return false;
+    let changed = false;
+    for (const update of updates) {
+      const criterion = this.state.criteria.find((c) => c.id === update.id);
+      if (!criterion) continue;
+      if (criterion.status !== update.status || (update.note && criterion.note !== update.note)) {
+        criterion.status = update.status;
+        if (update.note) criterion.note = update.note;
+        changed = true;
+      }
+    }
+    if (changed) this.persist();
+    return changed;
+  }
+
+  /** Criteria not yet met. Empty when all are met or none were defined. */
+  openCriteria(): AcceptanceCriterion[] {
+    return this.state?.criteria.filter((c) => c.status !== "met") ?? [];
+  }
+
+  /** Add one supervisor call to the running totals. Persisted with the next state write. */
+  recordUsage(usage: CallUsage): void {
+    if (!this.state) return;
+    const totals = this.state.usage;
+    totals.calls++;
+    totals.input += usage.input;
+    totals.output += usage.output;
+    totals.cacheRead += usage.cacheRead;
+    totals.cacheWrite += usage.cacheWrite;
+    totals.cost += usage.cost;
+    totals.latencyMs += usage.latencyMs;
+  }
+
   incrementTurnCount(): void {
     if (!this.state) return;
     this.state.turnCount++;
@@ -71,21 +208,97 @@ export class SupervisorStateManager {
     this.persist();
   }
 
-  /** Restore state from session entries (finds the most recent supervisor-state entry). */
+  setDelivery(delivery: SteerDelivery): void {
+    if (!this.state) return;
+    this.state.delivery = delivery;
+    this.persist();
+  }
+
+  // ---- Goal queue ----
+
+  getQueue(): QueuedGoal[] {
+    return this.goals.queue;
+  }
+
+  /** Summaries of goals finished in the current sequence, oldest first. */
+  getCompletedGoals(): GoalSummary[] {
+    return this.goals.completed;
+  }
+
+  enqueue(goal: QueuedGoal): void {
+    this.goals.queue.push(goal);
+    this.persistQueue();
+  }
+
+  /** Remove the goal at 0-based `index`. Returns it, or undefined when out of range. */
+  removeFromQueue(index: number): QueuedGoal | undefined {
+    const [removed] = this.goals.queue.splice(index, 1);
+    if (removed) this.persistQueue();
+    return removed;
+  }
+
+  clearQueue(): void {
+    this.goals.queue = [];
+    this.persistQueue();
+  }
+
+  /** Take the next goal off the front of the queue. */
+  dequeue(): QueuedGoal | undefined {
+    const next = this.goals.queue.shift();
+    if (next) this.persistQueue();
+    return next;
+  }
+
+  recordGoalSummary(summary: GoalSummary): void {
+    this.goals.completed.push(summary);
+    this.persistQueue();
+  }
+
+  /** Forget finished goals — called when a new sequence begins. */
+  resetCompletedGoals(): void {
+    if (this.goals.completed.length === 0) return;
+    this.goals.completed = [];
+    this.persistQueue();
+  }
+
+  /** Position of the active goal in the current sequence, or null when there is no sequence. */
+  goalProgress(): { current: number; total: number } | null {
+    const { queue, completed } = this.goals;
+    if (queue.length === 0 && completed.length === 0) return null;
+    const current = completed.length + (this.isActive() ? 1 : 0);
+    return { current, total: current + queue.length };
+  }
+
+  /** Restore state from session entries (finds the most recent supervisor-state and supervisor-queue entries). */
   loadFromSession(ctx: ExtensionContext): void {
+    this.state = null;
+    this.goals = { queue: [], completed: [] };
+    let foundState = false;
+    let foundQueue = false;
     const entries = ctx.sessionManager.getBranch();
-    for (let i = entries.length - 1; i >= 0; i--) {
+    for (let i = entries.length - 1; i >= 0 && !(foundState && foundQueue); i--) {
       const entry = entries[i];
-      if (entry.type === "custom" && (entry as any).customType === ENTRY_TYPE) {
-        this.state = (entry as any).data as SupervisorState;
-        return;
+      if (isStateEntry(entry) && !foundState) {
+        this.state = restoreState((entry as any).data as SupervisorState);
+        foundState = true;
+      } else if (entry.type === "custom" && (entry as any).customType === QUEUE_ENTRY_TYPE && !foundQueue) {
+        const data = (entry as any).data as GoalQueueState;
+        this.goals = { queue: [...(data.queue ?? [])], completed: [...(data.completed ?? [])] };
+        foundQueue = true;
       }
     }
-    this.state = null;
+  }
+
+  private persistQueue(): void {
+    this.pi.appendEntry(QUEUE_ENTRY_TYPE, { queue: [...this.goals.queue], completed: [...this.goals.completed] });
   }
 
   private persist(): void {
     if (!this.state) return;
-    this.pi.appendEntry(ENTRY_TYPE, { ...this.state });
+    this.pi.appendEntry(ENTRY_TYPE, {
+      ...this.state,
+      criteria: this.state.criteria.map((c) => ({ ...c })),
+      usage: { ...this.state.usage },
+    });
   }
 }
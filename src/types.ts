@@ -2,15 +2,148 @@
  * Core types for the pi-supervisor extension.
  */
 
-export type Sensitivity = "low" | "medium" | "high";
+export type BuiltinSensitivity = "low" | "medium" | "high";
+
+/** A built-in level or the name of a custom profile from the workspace config */
+export type Sensitivity = BuiltinSensitivity | (string & {});
+
+/** Everything a sensitivity level controls */
+export interface SensitivityProfile {
+  name: string;
+  description: string;
+  base: BuiltinSensitivity;    // the built-in level a custom profile extends (itself for built-ins)
+  cadence: number;             // mid-run check every Nth tool cycle; 0 = end of run only
+  startTurn: number;           // first tool cycle eligible for a mid-run check
+  steerThreshold: number;      // confidence a mid-run steer needs
+  snapshotShare: number;       // share of the supervisor model's context window the conversation snapshot may use
+  snapshotTokens: number;      // snapshot budget when the model's context window is unknown
+  snapshotToolCalls: number;   // tool summaries shown in "tools" snapshot mode
+  toolOutputChars: number;     // output kept per tool result in "tools" snapshot mode
+  stagnationLimit: number;     // consecutive end-of-run steers before the lenient final evaluation
+}
 export type SupervisorAction = "continue" | "steer" | "done";
+/** What the conversation snapshot contains: chat text only, or chat text plus tool activity */
+export type SnapshotMode = "text" | "tools";
+export type CriterionStatus = "pending" | "in-progress" | "met" | "blocked";
+
+/** A single acceptance criterion derived from the outcome */
+export interface AcceptanceCriterion {
+  id: number;                // 1-based, stable for the lifetime of the supervision
+  text: string;
+  status: CriterionStatus;
+  note?: string;             // latest supervisor remark (e.g. why it is blocked)
+}
+
+/** Status change for one criterion, reported by the supervisor */
+export interface CriterionUpdate {
+  id: number;
+  status: CriterionStatus;
+  note?: string;
+}
+
+/** How steering messages reach the agent: directly, or only after the user approves them */
+export type SteerDelivery = "auto" | "approve";
+
+/**
+ * What became of a proposed steer: what the user did with it in "approve" mode, or "blocked" for a
+ * guardrail that stopped a tool call — its reason reached the agent as the tool's error, not as a message
+ */
+export type SteerDisposition = "approved" | "edited" | "rejected" | "blocked";
+
+/** Which supervisor model made a decision: the routine one, or the stronger escalation model */
+export type DecisionTier = "primary" | "escalation";
+
+/** Why a decision went to the escalation model */
+export type EscalationTrigger = "done" | "uncertain" | "stagnation";
+
+/** How judge votes are combined into one "done" verdict */
+export type JudgeRule = "unanimous" | "majority" | "weighted";
+
+/** One judge model's view of a proposed "done" */
+export interface JudgeVote {
+  model: string;             // "provider/modelId"
+  vote: "done" | "not-done" | "abstain";  // abstain: the judge could not be reached
+  confidence: number;
+  reasoning: string;
+  message?: string;          // the judge's steer, when it voted not-done
+  repair?: ResponseRepair;   // set when the judge's response was not valid JSON as returned
+}
+
+/** Outcome of asking the judge panel to confirm a "done" */
+export interface JudgePanel {
+  rule: JudgeRule;
+  accepted: boolean;
+  votes: JudgeVote[];
+}
 
 /** A single intervention record */
 export interface SupervisorIntervention {
   turnCount: number;
-  message: string;
+  message: string;           // the text delivered (or, when rejected, the text proposed)
   reasoning: string;
+  confidence?: number;       // absent on records written before confidence was tracked
   timestamp: number;
+  disposition?: SteerDisposition;  // absent when delivered automatically
+  proposedMessage?: string;        // the supervisor's original text, when the user edited it
+  guardrail?: string;              // the guardrail rule a tool call violated, for guardrail interventions
+  judges?: JudgePanel;             // the panel that overruled a "done", when it did
+  tier?: DecisionTier;             // set when an escalation model is configured
+}
+
+/** Per-outcome limits on the agent's tool calls, checked as they happen */
+export interface GuardrailPolicy {
+  allowPaths?: string[];     // globs; edits/writes elsewhere are violations
+  forbidPaths?: string[];    // globs that must never be edited or written
+  forbidBash?: string[];     // regexes for bash commands that must not run
+  protectTests?: boolean;    // test files must not be modified
+  onViolation?: "block" | "steer";  // default "block"
+}
+
+/** A decision logged in shadow mode instead of being acted on */
+export interface ShadowDecision {
+  turnCount: number;
+  midRun: boolean;           // from a turn_end check rather than agent_end
+  action: SupervisorAction;  // what the supervisor would have done
+  message?: string;          // the steer it would have sent
+  reasoning: string;
+  confidence: number;
+  timestamp: number;
+  tier?: DecisionTier;       // set when an escalation model is configured
+}
+
+/** How a supervision ended */
+export type SupervisionResult = "achieved" | "stopped" | "budget-exhausted" | "stagnated";
+
+/** Hard limits on a supervision run. Absent fields are unlimited. */
+export interface SupervisionBudgets {
+  maxRuns?: number;          // agent runs (agent_end events)
+  maxSteers?: number;        // interventions, mid-run and end-of-run
+  maxMinutes?: number;       // wall-clock time since start
+  maxCost?: number;          // estimated supervisor spend in USD
+}
+
+/** Token usage, estimated cost and latency of one supervisor model call */
+export interface CallUsage {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  cost: number;              // USD, estimated from the model's pricing
+  latencyMs: number;
+}
+
+/** Running totals over all supervisor calls of a supervision */
+export interface UsageTotals extends CallUsage {
+  calls: number;
+}
+
+/** Final verdict, recorded when supervision ends */
+export interface SupervisionVerdict {
+  result: SupervisionResult;
+  reasoning: string;
+  confidence?: number;
+  judges?: JudgePanel;       // the panel that confirmed "done"
+  tier?: DecisionTier;       // set when an escalation model is configured
 }
 
 /** Full supervisor state — persisted to session */
@@ -20,21 +153,164 @@ export interface SupervisorState {
   provider: string;          // e.g. "anthropic"
   modelId: string;           // e.g. "claude-haiku-4-5-20251001"
   sensitivity: Sensitivity;
+  prompt?: string;           // named prompt variant (--prompt), e.g. "review" → .pi/supervisors/review.md
+  criteria: AcceptanceCriterion[];
+  verifyCommands: string[];  // shell commands that must pass before "done" is accepted
+  budgets: SupervisionBudgets;
+  guardrails: GuardrailPolicy;
+  baseCommit?: string;       // git commit (or stash snapshot) at start — progress is measured against it
+  usage: UsageTotals;
+  delivery: SteerDelivery;
+  shadow: boolean;           // evaluate only — never steer, never stop on "done"
+  shadowLog: ShadowDecision[];
+  failures: SupervisorFailure[];
+  repairs: RepairRecord[];
   interventions: SupervisorIntervention[];
   startedAt: number;
+  endedAt?: number;
+  verdict?: SupervisionVerdict;
   turnCount: number;
 }
 
+/** An outcome waiting in the goal queue */
+export interface QueuedGoal {
+  outcome: string;
+  verifyCommands?: string[];  // inline --verify commands; falls back to workspace config when absent
+  budgets?: SupervisionBudgets; // inline --max-* flags; merged over workspace config budgets
+  guardrails?: GuardrailPolicy; // inline guardrail flags; merged over workspace config guardrails
+  prompt?: string;              // inline --prompt variant
+  addedAt: number;
+}
+
+/** Record of a finished goal, written when its supervision reaches "done" */
+export interface GoalSummary {
+  outcome: string;
+  startedAt: number;
+  endedAt: number;
+  turnCount: number;
+  steers: number;
+  criteriaMet: number;
+  criteriaTotal: number;
+  reasoning: string;          // the supervisor's final "done" reasoning
+}
+
+/** Goal queue — persisted next to SupervisorState */
+export interface GoalQueueState {
+  queue: QueuedGoal[];
+  completed: GoalSummary[];   // goals finished in the current sequence, oldest first
+}
+
 /** Decision returned by the supervisor LLM */
 export interface SteeringDecision {
   action: SupervisorAction;
   message?: string;
   reasoning: string;
   confidence: number;
+  criteria?: CriterionUpdate[];  // status changes since the last analysis
+  model?: string;                // "provider/modelId" that produced the decision
+  error?: string;                // set when no model could be reached — the decision is then a no-op
+  repair?: ResponseRepair;       // set when the response was not valid JSON as returned
+  repairs?: ResponseRepair[];    // every repair in one analysis, including a primary decision the escalation model replaced
+  rule?: string;                 // id of the deterministic rule that decided or overrode this
+  judges?: JudgePanel;           // set when a judge panel reviewed a "done"
+  tier?: DecisionTier;           // set when an escalation model is configured
+  escalation?: EscalationTrigger;  // why the escalation model was asked, when it was
+}
+
+/** How a malformed supervisor response was handled */
+export interface ResponseRepair {
+  method: "tolerant" | "reprompt";  // local clean-up, or a follow-up call asking the model to fix its JSON
+  ok: boolean;                      // false: the repair failed and the decision fell back to "continue"
+  error: string;                    // why the original response could not be parsed
+  model?: string;                   // "provider/modelId" whose response needed repair
+}
+
+/** A repair, as recorded in the supervision log */
+export interface RepairRecord extends ResponseRepair {
+  turnCount: number;
+  timestamp: number;
+}
+
+/** A supervisor analysis that failed on every model in the chain */
+export interface SupervisorFailure {
+  turnCount: number;
+  error: string;
+  timestamp: number;
 }
 
 /** A simplified message for building the supervisor context */
 export interface ConversationMessage {
-  role: "user" | "assistant";
+  role: "user" | "assistant" | "tool";  // "tool" = compact summary of one tool call and its result
   content: string;
 }
+
+// ---- Public events on pi.events — channel names and helpers are in events.ts ----
+// Payloads are copies: changing them does not affect the supervisor.
+
+/** "supervisor:started" — supervision of an outcome began */
+export interface SupervisionStartedEvent {
+  state: SupervisorState;
+}
+
+/** "supervisor:stopped" — supervision ended, for any reason; `verdict.result` says why */
+export interface SupervisionStoppedEvent {
+  state: SupervisorState;
+  verdict: SupervisionVerdict;
+}
+
+/** "supervisor:analysis-started" — the supervisor model is about to be asked */
+export interface AnalysisStartedEvent {
+  outcome: string;
+  turn: number;
+  midRun: boolean;           // true: checked while the agent is still working
+}
+
+/** "supervisor:decision" — an analysis finished; `decision.error` is set when every model failed */
+export interface DecisionMadeEvent {
+  outcome: string;
+  turn: number;
+  midRun: boolean;
+  decision: SteeringDecision;  // after criteria gating, judges and verification
+}
+
+/** "supervisor:steer-sent" — a steering message reached the agent */
+export interface SteerSentEvent {
+  outcome: string;
+  turn: number;
+  midRun: boolean;
+  intervention: SupervisorIntervention;
+}
+
+/** "supervisor:achieved" — the outcome was judged done and accepted */
+export interface OutcomeAchievedEvent {
+  outcome: string;
+  turn: number;
+  reasoning: string;
+  confidence: number;
+  state: SupervisorState;
+}
+
+/** Payload type for each supervisor event channel */
+export interface SupervisorEventMap {
+  "supervisor:started": SupervisionStartedEvent;
+  "supervisor:stopped": SupervisionStoppedEvent;
+  "supervisor:analysis-started": AnalysisStartedEvent;
+  "supervisor:decision": DecisionMadeEvent;
+  "supervisor:steer-sent": SteerSentEvent;
+  "supervisor:achieved": OutcomeAchievedEvent;
+}
+
+export type SupervisorEventName = keyof SupervisorEventMap;
+
+/** Answer to a "supervisor:query" request */
+export interface SupervisorSnapshot {
+  active: boolean;
+  state: SupervisorState | null;  // the current or most recent supervision in this session
+  queue: QueuedGoal[];
+  goalProgress: { current: number; total: number } | null;
+}
+
+/** Payload of a "supervisor:query" request; the supervisor calls `reply` before emit returns */
+export interface SupervisorQuery {
+  reply: (snapshot: SupervisorSnapshot) => void;
+}
@@ -7,24 +7,36 @@
  * Opened via `/supervise` (no args) or `/supervise settings`.
  */
 
-import { SettingsList, type SettingItem, type SettingsListTheme } from "@mariozechner/pi-tui";
+import {
+  SelectList,
+  SettingsList,
+  type Component,
+  type SelectItem,
+  type SelectListTheme,
+  type SettingItem,
+  type SettingsListTheme,
+} from "@mariozechner/pi-tui";
 import { ModelSelectorComponent, SettingsManager } from "@mariozechner/pi-coding-agent";
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
-import type { SupervisorState, Sensitivity } from "../types.js";
-import { isWidgetVisible } from "./status-widget.js";
+import type { JudgeRule, SupervisorState, Sensitivity, SensitivityProfile, SteerDelivery } from "../types.js";
+import type { WorkspaceModelConfig } from "../workspace-config.js";
+import { deliveredSteers } from "../state.js";
+import { JUDGE_RULES, JUDGE_RULE_DESCRIPTIONS } from "../judges.js";
+import { formatCost, formatTokens, isWidgetVisible } from "./status-widget.js";
 
-const SENSITIVITIES: Sensitivity[] = ["low", "medium", "high"];
-
-const SENSITIVITY_DESCRIPTIONS: Record<Sensitivity, string> = {
-  low: "Steer only when seriously off track (end of run only)",
-  medium: "Steer on clear drift (end of run + every 3rd mid-turn)",
-  high: "Proactive steering (end of run + every mid-turn)",
+const DELIVERY_DESCRIPTIONS: Record<SteerDelivery, string> = {
+  auto: "Steering messages are sent to the agent immediately",
+  approve: "Each steering message waits for you to approve, edit or reject it",
 };
 
 export interface SettingsResult {
   model?: { provider: string; modelId: string };
   sensitivity?: Sensitivity;
+  delivery?: SteerDelivery;
   widget?: boolean;
+  judges?: WorkspaceModelConfig[];
+  judgeRule?: JudgeRule;
+  escalation?: WorkspaceModelConfig | null;  // null: escalation turned off
   action?: "stop" | "start";
 }
 
@@ -38,13 +50,19 @@ export async function openSettings(
   defaultProvider: string,
   defaultModelId: string,
   defaultSensitivity: Sensitivity,
+  profiles: SensitivityProfile[],
+  panel: { judges: WorkspaceModelConfig[]; rule: JudgeRule },
+  escalation?: WorkspaceModelConfig,
 ): Promise<SettingsResult | null> {
+  const describeProfile = (name: string) => profiles.find((p) => p.name === name)?.description ?? "";
   const currentProvider = state?.provider ?? defaultProvider;
   const currentModelId = state?.modelId ?? defaultModelId;
   const currentSensitivity = state?.sensitivity ?? defaultSensitivity;
   const isActive = state?.active === true;
 
   const result: SettingsResult = {};
+  const judges = [...panel.judges];
+  const describeJudges = () => judges.length === 0 ? "none" : judges.map((j) => `${j.provider}/${j.modelId}`).join(", ");
 
   return ctx.ui.custom<SettingsResult | null>((tui, theme, _kb, done) => {
     const makeModelSubmenu = (currentValue: string, submenuDone: (selected?: string) => void) => {
@@ -69,6 +87,98 @@ export async function openSettings(
       return component;
     };
 
+    const listTheme: SelectListTheme = {
+      selectedPrefix: (text) => theme.fg("accent", text),
+      selectedText: (text) => theme.fg("accent", text),
+      description: (text) => theme.fg("dim", text),
+      scrollInfo: (text) => theme.fg("dim", text),
+      noMatch: (text) => theme.fg("dim", text),
+    };
+
+    // Escalation model: pick one from the model selector, or turn escalation off
+    const makeEscalationSubmenu = (_currentValue: string, submenuDone: (selected?: string) => void): Component => {
+      const list = new SelectList([
+        { value: "choose", label: "Choose model…", description: "Stronger model for \"done\", uncertain and stagnation calls" },
+        { value: "off", label: "None", description: "Every decision is made by the supervisor model" },
+      ], 2, listTheme);
+      let active: Component = list;
+
+      list.onCancel = () => submenuDone();
+      list.onSelect = (item) => {
+        if (item.value === "off") {
+          result.escalation = null;
+          submenuDone("none");
+          return;
+        }
+        const current = escalation ? ctx.modelRegistry.find(escalation.provider, escalation.modelId) : undefined;
+        const selector = new ModelSelectorComponent(
+          tui,
+          current,
+          SettingsManager.inMemory(),
+          ctx.modelRegistry,
+          [],
+          (model) => {
+            result.escalation = { provider: model.provider, modelId: model.id };
+            submenuDone(`${model.provider}/${model.id}`);
+          },
+          () => { active = list; tui.requestRender(); },
+        );
+        selector.focused = true;
+        active = selector;
+      };
+
+      return {
+        render: (width: number) => active.render(width),
+        invalidate: () => active.invalidate(),
+        handleInput: (data: string) => active.handleInput?.(data),
+      };
+    };
+
+    // Judge list: Enter on a judge removes it; "+ Add judge…" opens the model selector
+    const makeJudgesSubmenu = (_currentValue: string, submenuDone: (selected?: string) => void): Component => {
+      const choices: SelectItem[] = [
+        ...judges.map((j, i) => ({ value: String(i), label: `${j.provider}/${j.modelId}`, description: "Enter to remove" })),
+        { value: "add", label: "+ Add judge…", description: "Pick a model to join the panel" },
+      ];
+      const list = new SelectList(choices, 10, listTheme);
+      let active: Component = list;
+
+      const changed = () => {
+        result.judges = [...judges];
+        submenuDone(describeJudges());
+      };
+      list.onCancel = () => submenuDone();
+      list.onSelect = (item) => {
+        if (item.value !== "add") {
+          judges.splice(Number(item.value), 1);
+          changed();
+          return;
+        }
+        const selector = new ModelSelectorComponent(
+          tui,
+          undefined,
+          SettingsManager.inMemory(),
+          ctx.modelRegistry,
+          [],
+          (model) => {
+            if (!judges.some((j) => j.provider === model.provider && j.modelId === model.id)) {
+              judges.push({ provider: model.provider, modelId: model.id });
+            }
+            changed();
+          },
+          () => { active = list; tui.requestRender(); },
+        );
+        selector.focused = true;
+        active = selector;
+      };
+
+      return {
+        render: (width: number) => active.render(width),
+        invalidate: () => active.invalidate(),
+        handleInput: (data: string) => active.handleInput?.(data),
+      };
+    };
+
     const items: SettingItem[] = [
       {
         id: "model",
@@ -80,9 +190,39 @@ export async function openSettings(
       {
         id: "sensitivity",
         label: "Sensitivity",
-        description: SENSITIVITY_DESCRIPTIONS[currentSensitivity],
+        description: describeProfile(currentSensitivity),
         currentValue: currentSensitivity,
-        values: [...SENSITIVITIES],
+        values: profiles.map((p) => p.name),
+      },
+      ...(isActive
+        ? [{
+            id: "delivery",
+            label: "Delivery",
+            description: DELIVERY_DESCRIPTIONS[state!.delivery],
+            currentValue: state!.delivery,
+            values: ["auto", "approve"],
+          }]
+        : []),
+      {
+        id: "escalation",
+        label: "Escalation",
+        description: "Stronger model consulted for \"done\", uncertain verdicts and stagnation (Enter to change)",
+        currentValue: escalation ? `${escalation.provider}/${escalation.modelId}` : "none",
+        submenu: makeEscalationSubmenu,
+      },
+      {
+        id: "judges",
+        label: "Judges",
+        description: "Models that must confirm \"done\" before supervision ends (Enter to manage)",
+        currentValue: describeJudges(),
+        submenu: makeJudgesSubmenu,
+      },
+      {
+        id: "judgeRule",
+        label: "Judge rule",
+        description: JUDGE_RULE_DESCRIPTIONS[panel.rule],
+        currentValue: panel.rule,
+        values: JUDGE_RULES,
       },
       {
         id: "widget",
@@ -93,11 +233,38 @@ export async function openSettings(
       },
     ];
 
+    if (isActive && state!.criteria.length > 0) {
+      const met = state!.criteria.filter((c) => c.status === "met").length;
+      const open = state!.criteria.filter((c) => c.status !== "met");
+      items.push({
+        id: "criteria",
+        label: "Criteria",
+        description: open.length === 0
+          ? "All acceptance criteria met"
+          : `Open: ${open.map((c) => `[${c.id}] ${c.text}${c.status === "pending" ? "" : ` (${c.status})`}`).join(" · ")}`,
+        currentValue: `${met}/${state!.criteria.length} met`,
+      });
+    }
+
+    if (state && state.usage.calls > 0) {
+      const u = state.usage;
+      items.push({
+        id: "usage",
+        label: "Usage",
+        description:
+          `in ${formatTokens(u.input)} · out ${formatTokens(u.output)} · ` +
+          `cache read ${formatTokens(u.cacheRead)} / write ${formatTokens(u.cacheWrite)} · ` +
+          `avg ${(u.latencyMs / u.calls / 1000).toFixed(1)}s per call` +
+          (state.repairs.length > 0 ? ` · ${state.repairs.length} JSON repair${state.repairs.length === 1 ? "" : "s"}` : ""),
+        currentValue: `${formatCost(u.cost)} · ${u.calls} call${u.calls === 1 ? "" : "s"}`,
+      });
+    }
+
     if (isActive) {
       items.push({
         id: "outcome",
         label: "Outcome",
-        description: `Steers: ${state!.interventions.length} · Turns: ${state!.turnCount}`,
+        description: `Steers: ${deliveredSteers(state!)} · Turns: ${state!.turnCount}`,
         currentValue: `"${state!.outcome.length > 60 ? state!.outcome.slice(0, 59) + "…" : state!.outcome}"`,
       });
       items.push({
@@ -127,6 +294,10 @@ export async function openSettings(
           result.sensitivity = sens;
           // Update description dynamically
           settingsList.updateValue("sensitivity", sens);
+        } else if (id === "delivery") {
+          result.delivery = newValue as SteerDelivery;
+        } else if (id === "judgeRule") {
+          result.judgeRule = newValue as JudgeRule;
         } else if (id === "widget") {
           result.widget = newValue === "visible";
         } else if (id === "stop" && newValue === "confirm") {
@@ -136,7 +307,8 @@ export async function openSettings(
       },
       () => {
         // Cancel — return null if no changes, or partial result if some changes were made
-        const hasChanges = result.model || result.sensitivity || result.widget !== undefined;
+        const hasChanges = result.model || result.sensitivity || result.delivery || result.widget !== undefined ||
+          result.judges || result.judgeRule || result.escalation !== undefined;
         done(hasChanges ? result : null);
       },
     );
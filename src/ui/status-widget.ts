@@ -2,7 +2,7 @@
  * Supervisor UI — footer status indicator and widget.
  *
  * Footer: 🎯 emoji badge.
- * Widget line 1: ◉ Supervising · Goal: "…" · model · steers · action
+ * Widget line 1: ◉ Supervising · Goal [n/m]: "…" · criteria met · model · steers · spend · action [tier]
  * Widget line 2: dim thinking text while analyzing (temporary)
  *
  * Toggle visibility with toggleWidget().
@@ -10,7 +10,8 @@
 
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
 import { truncateToWidth } from "@mariozechner/pi-tui";
-import type { SupervisorState } from "../types.js";
+import type { DecisionTier, SupervisorAction, SupervisorState, UsageTotals } from "../types.js";
+import { deliveredSteers } from "../state.js";
 
 const WIDGET_ID = "supervisor";
 const STATUS_ID = "supervisor";
@@ -27,6 +28,11 @@ export function toggleWidget(): boolean {
   return _widgetVisible;
 }
 
+/** Set visibility directly, e.g. from the saved `widget` config value. */
+export function setWidgetVisible(visible: boolean): void {
+  _widgetVisible = visible;
+}
+
 export function isWidgetVisible(): boolean {
   return _widgetVisible;
 }
@@ -34,21 +40,46 @@ export function isWidgetVisible(): boolean {
 export type WidgetAction =
   | { type: "watching" }
   | { type: "analyzing"; turn: number; thinking?: string }
-  | { type: "steering"; message: string }
-  | { type: "done" };
+  | { type: "verifying"; command: string }
+  | { type: "judging"; judges: number }
+  | { type: "steering"; message: string; tier?: DecisionTier }
+  | { type: "reviewing"; message: string }
+  | { type: "failed"; error: string }
+  | { type: "shadow"; action: SupervisorAction; message?: string; tier?: DecisionTier }
+  | { type: "done"; tier?: DecisionTier };
 
 function truncate(s: string, max: number): string {
   return s.length <= max ? s : s.slice(0, max - 1) + "…";
 }
 
+/** Compact token count: 950, 12.3k, 1.2M */
+export function formatTokens(n: number): string {
+  if (n < 1000) return String(n);
+  if (n < 1_000_000) return `${(n / 1000).toFixed(n < 10_000 ? 1 : 0)}k`;
+  return `${(n / 1_000_000).toFixed(1)}M`;
+}
+
+/** Dollar amount with enough precision for cheap models: $0.0042, $0.13, $2.40 */
+export function formatCost(usd: number): string {
+  return usd < 0.1 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+/** "12.3k tok · $0.0042" — all tokens (input, output, cache) sent or received by the supervisor. */
+export function formatUsage(usage: UsageTotals): string {
+  const tokens = usage.input + usage.output + usage.cacheRead + usage.cacheWrite;
+  return `${formatTokens(tokens)} tok · ${formatCost(usage.cost)}`;
+}
+
 /**
  * Update footer + widget. Call this every time state or action changes.
  * Clears both when state is null or inactive.
+ * `goalProgress` is the active goal's position in the goal queue, if one is running.
  */
 export function updateUI(
   ctx: ExtensionContext,
   state: SupervisorState | null,
-  action: WidgetAction = { type: "watching" }
+  action: WidgetAction = { type: "watching" },
+  goalProgress: { current: number; total: number } | null = null
 ): void {
   if (!state || !state.active) {
     ctx.ui.setStatus(STATUS_ID, undefined);
@@ -56,7 +87,7 @@ export function updateUI(
     return;
   }
 
-  ctx.ui.setStatus(STATUS_ID, "🎯");
+  ctx.ui.setStatus(STATUS_ID, state.shadow ? "🎯 shadow" : "🎯");
 
   if (!_widgetVisible) {
     ctx.ui.setWidget(WIDGET_ID, undefined);
@@ -66,23 +97,38 @@ export function updateUI(
   const snap = {
     outcome: state.outcome,
     modelId: state.modelId,
-    interventions: [...state.interventions],
+    shadow: state.shadow,
+    // In shadow mode, count the steers it would have sent
+    steers: state.shadow ? state.shadowLog.filter((d) => d.action === "steer").length : deliveredSteers(state),
+    criteria: state.criteria.map((c) => c.status),
+    usage: { ...state.usage },
   };
   const snapAction = action;
 
   ctx.ui.setWidget(WIDGET_ID, (_tui, theme) => {
-    const steerCount = snap.interventions.length;
+    const steerCount = snap.steers;
 
-    // Header: ◉ Supervising
-    const header = `${theme.fg("accent", "◉")} ${theme.fg("accent", "Supervising")}`;
+    // Header: ◉ Supervising, or ◎ Shadowing when only observing
+    const header = snap.shadow
+      ? `${theme.fg("muted", "◎")} ${theme.fg("muted", "Shadowing")}`
+      : `${theme.fg("accent", "◉")} ${theme.fg("accent", "Supervising")}`;
     // Goal label + value
-    const goalLabel = theme.fg("dim", "Goal:");
+    const goalLabel = theme.fg("dim", goalProgress ? `Goal ${goalProgress.current}/${goalProgress.total}:` : "Goal:");
     const goalText  = theme.fg("muted", `"${truncate(snap.outcome, MAX_OUTCOME_DISPLAY)}"`);
     const goal      = `${goalLabel} ${goalText}`;
+    // Acceptance criteria progress (met / total); blocked ones flagged
+    const metCount     = snap.criteria.filter((c) => c === "met").length;
+    const blockedCount = snap.criteria.filter((c) => c === "blocked").length;
+    const criteria = snap.criteria.length > 0
+      ? theme.fg(metCount === snap.criteria.length ? "accent" : "dim", `☑ ${metCount}/${snap.criteria.length}`) +
+        (blockedCount > 0 ? theme.fg("warning", ` ⊘ ${blockedCount}`) : "")
+      : "";
     // Model
     const model  = theme.fg("dim", snap.modelId);
     // Steer count
     const steers = steerCount > 0 ? theme.fg("dim", `↗ ${steerCount}`) : "";
+    // Supervisor spend so far
+    const spend  = snap.usage.calls > 0 ? theme.fg("dim", formatUsage(snap.usage)) : "";
 
     // Current action
     let actionStr: string;
@@ -95,16 +141,41 @@ export function updateUI(
         actionStr = theme.fg("warning", `⟳ turn ${snapAction.turn}`);
         thinking  = snapAction.thinking ?? "";
         break;
+      case "verifying":
+        actionStr = theme.fg("warning", `⚙ ${truncate(snapAction.command, MAX_STEER_DISPLAY)}`);
+        break;
+      case "judging":
+        actionStr = theme.fg("warning", `⚖ judging (${snapAction.judges})`);
+        break;
       case "steering":
         actionStr = theme.fg("warning", `↗ "${truncate(snapAction.message, MAX_STEER_DISPLAY)}"`);
         break;
+      case "reviewing":
+        actionStr = theme.fg("warning", `⏸ awaiting approval: "${truncate(snapAction.message, MAX_STEER_DISPLAY)}"`);
+        break;
+      case "shadow":
+        actionStr = snapAction.action === "steer"
+          ? theme.fg("warning", `would steer: "${truncate(snapAction.message ?? "", MAX_STEER_DISPLAY)}"`)
+          : snapAction.action === "done"
+            ? theme.fg("accent", "would finish ✓")
+            : theme.fg("dim", "would continue");
+        break;
+      case "failed":
+        actionStr = theme.fg("error", "⚠ supervisor unavailable");
+        thinking  = snapAction.error;
+        break;
       case "done":
         actionStr = theme.fg("accent", "✓ done");
         break;
     }
 
+    // Which tier decided, when an escalation model is configured
+    const tier = "tier" in snapAction ? snapAction.tier : undefined;
+    if (tier === "escalation") actionStr += theme.fg("warning", " ⇈ escalated");
+    else if (tier === "primary") actionStr += theme.fg("dim", " (primary)");
+
     const sep   = theme.fg("dim", " · ");
-    const parts = [header, goal, model, steers, actionStr].filter(Boolean);
+    const parts = [header, goal, criteria, model, steers, spend, actionStr].filter(Boolean);
     const line  = parts.join(sep);
 
     const thinkingLine = thinking
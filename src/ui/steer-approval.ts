@@ -0,0 +1,109 @@
+/**
+ * steer-approval — overlay that asks the user to approve a steering message.
+ *
+ * Shown in "approve" delivery mode before a steer reaches the agent.
+ * The user can send it as proposed, edit the text first, reject it, or stop supervision.
+ */
+
+import { Input, SelectList, wrapTextWithAnsi, type SelectItem, type SelectListTheme } from "@mariozechner/pi-tui";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+
+export interface SteerProposal {
+  message: string;
+  reasoning: string;
+  confidence: number;
+  turn: number;
+  midRun: boolean;  // proposed while the agent is still working
+}
+
+export type SteerReview =
+  | { action: "approve"; message: string }
+  | { action: "edit"; message: string }
+  | { action: "reject" }
+  | { action: "stop" };
+
+const CHOICES: SelectItem[] = [
+  { value: "approve", label: "Approve", description: "Send the message as proposed" },
+  { value: "edit", label: "Edit", description: "Change the text, then send it" },
+  { value: "reject", label: "Reject", description: "Don't send anything" },
+  { value: "stop", label: "Stop supervision", description: "Reject and end supervision" },
+];
+
+/**
+ * Show the proposal and wait for the user's choice.
+ * Escape rejects; Escape while editing returns to the choices.
+ */
+export async function reviewSteer(ctx: ExtensionContext, proposal: SteerProposal): Promise<SteerReview> {
+  return ctx.ui.custom<SteerReview>((tui, theme, _kb, done) => {
+    const listTheme: SelectListTheme = {
+      selectedPrefix: (text) => theme.fg("accent", text),
+      selectedText: (text) => theme.fg("accent", text),
+      description: (text) => theme.fg("dim", text),
+      scrollInfo: (text) => theme.fg("dim", text),
+      noMatch: (text) => theme.fg("dim", text),
+    };
+
+    const choices = new SelectList(CHOICES, CHOICES.length, listTheme);
+    const editor = new Input();
+    let editing = false;
+
+    choices.onSelect = (item) => {
+      if (item.value === "edit") {
+        editing = true;
+        editor.setValue(proposal.message);
+        editor.focused = true;
+      } else if (item.value === "approve") {
+        done({ action: "approve", message: proposal.message });
+      } else {
+        done({ action: item.value as "reject" | "stop" });
+      }
+    };
+    choices.onCancel = () => done({ action: "reject" });
+
+    editor.onSubmit = (value) => {
+      const message = value.trim();
+      if (!message) return;
+      done(message === proposal.message.trim()
+        ? { action: "approve", message: proposal.message }
+        : { action: "edit", message });
+    };
+    editor.onEscape = () => {
+      editing = false;
+      editor.focused = false;
+    };
+
+    return {
+      render: (width: number) => {
+        const lines: string[] = [];
+        const when = proposal.midRun ? "mid-run" : "end of run";
+        lines.push(
+          `${theme.fg("warning", "↗")} ${theme.bold("Supervisor wants to steer")} ` +
+            theme.fg("dim", `(turn ${proposal.turn} · ${when} · confidence ${proposal.confidence.toFixed(2)})`)
+        );
+        lines.push(theme.fg("dim", "─".repeat(Math.min(40, width))));
+        for (const line of wrapTextWithAnsi(`"${proposal.message}"`, width)) lines.push(line);
+        if (proposal.reasoning) {
+          lines.push("");
+          for (const line of wrapTextWithAnsi(`Reasoning: ${proposal.reasoning}`, width)) lines.push(theme.fg("dim", line));
+        }
+        lines.push("");
+        if (editing) {
+          lines.push(theme.fg("dim", "Edit message (Enter to send, Esc to go back):"));
+          lines.push(...editor.render(width));
+        } else {
+          lines.push(...choices.render(width));
+        }
+        return lines;
+      },
+      invalidate: () => {
+        choices.invalidate();
+        editor.invalidate();
+      },
+      handleInput: (data: string) => {
+        if (editing) editor.handleInput(data);
+        else choices.handleInput(data);
+        tui.requestRender();
+      },
+    };
+  });
+}
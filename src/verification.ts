@@ -0,0 +1,63 @@
+/**
+ * verification — runs the outcome's verification commands before a "done" verdict is accepted.
+ *
+ * Commands come from `/supervise --verify "<cmd>" <outcome>` or `verify` in
+ * .pi/supervisor-config.json. They run in the workspace through `bash -c`, one after
+ * another, and stop at the first failure.
+ */
+
+import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+
+const VERIFY_TIMEOUT_MS = 5 * 60_000;
+const MAX_OUTPUT_CHARS = 2000;
+
+export interface VerificationResult {
+  command: string;
+  ok: boolean;
+  code: number;
+  killed: boolean;   // true when the command hit the timeout or was aborted
+  output: string;    // combined stdout + stderr, truncated to the tail
+}
+
+/** Run commands in order; returns the first failing result, or null when all pass. */
+export async function runVerification(
+  pi: ExtensionAPI,
+  cwd: string,
+  commands: string[],
+  onCommand?: (command: string) => void,
+  signal?: AbortSignal
+): Promise<VerificationResult | null> {
+  for (const command of commands) {
+    onCommand?.(command);
+    const result = await runOne(pi, cwd, command, signal);
+    if (!result.ok) return result;
+  }
+  return null;
+}
+
+async function runOne(pi: ExtensionAPI, cwd: string, command: string, signal?: AbortSignal): Promise<VerificationResult> {
+  try {
+    const { stdout, stderr, code, killed } = await pi.exec("bash", ["-c", command], {
+      cwd,
+      timeout: VERIFY_TIMEOUT_MS,
+      signal,
+    });
+    const output = [stdout, stderr].map((s) => s.trim()).filter(Boolean).join("\n");
+    return { command, ok: code === 0 && !killed, code, killed, output: tail(output, MAX_OUTPUT_CHARS) };
+  } catch (err) {
+    return { command, ok: false, code: -1, killed: false, output: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/** Steering message quoting the failing command and its output. */
+export function formatVerificationFailure(result: VerificationResult): string {
+  const status = result.killed
+    ? `timed out after ${VERIFY_TIMEOUT_MS / 1000}s`
+    : `exited with code ${result.code}`;
+  const output = result.output ? `\n\n${result.output}` : "";
+  return `Not done yet — verification \`${result.command}\` ${status}. Fix the failure and make it pass.${output}`;
+}
+
+function tail(text: string, max: number): string {
+  return text.length <= max ? text : "…" + text.slice(text.length - max + 1);
+}
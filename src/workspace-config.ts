@@ -1,48 +1,317 @@
 /**
- * Workspace-level supervisor config — persists model selection to .pi/supervisor-config.json.
- * Only written when the .pi/ directory already exists.
+ * Supervisor config — layered and validated.
+ *
+ * Layers, later ones winning per key:
+ *   1. built-in defaults
+ *   2. ~/.pi/agent/supervisor-config.json — global
+ *   3. <cwd>/.pi/supervisor-config.json   — project
+ * `budgets` and `profiles` are merged field by field / name by name; every other key is replaced whole.
+ * Settings changed from the UI are written to the project file when <cwd>/.pi/ exists, else to the global one.
  */
 
-import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
 import { join } from "node:path";
+import type { GitContextMode } from "./git-context.js";
+import type {
+  GuardrailPolicy,
+  JudgeRule,
+  Sensitivity,
+  SensitivityProfile,
+  SnapshotMode,
+  SteerDelivery,
+  SupervisionBudgets,
+} from "./types.js";
+import { parseBudgets } from "./budgets.js";
+import { parseRules, type SupervisorRule } from "./rules.js";
+import { parseGuardrails } from "./guardrails.js";
+import { listProfiles, parseProfiles } from "./profiles.js";
+import { DEFAULT_SENSITIVITY } from "./state.js";
+import { DEFAULT_TOOL_BUDGET } from "./workspace-tools.js";
 
 const PI_DIR = ".pi";
+const GLOBAL_DIR = join(homedir(), ".pi", "agent");
 const CONFIG_FILE = "supervisor-config.json";
 
+export type ConfigLayer = "default" | "global" | "project";
+
 export interface WorkspaceModelConfig {
   provider: string;
   modelId: string;
 }
 
-/** Read model config from <cwd>/.pi/supervisor-config.json. Returns null if absent or unreadable. */
-export function loadWorkspaceModel(cwd: string): WorkspaceModelConfig | null {
-  const configPath = join(cwd, PI_DIR, CONFIG_FILE);
-  if (!existsSync(configPath)) return null;
+/** All keys understood in supervisor-config.json. Every field is optional. */
+export interface WorkspaceConfig {
+  provider?: string;
+  modelId?: string;
+  sensitivity?: Sensitivity;
+  widget?: boolean;          // show the one-line status widget
+  promptPath?: string;       // supervisor system prompt file; overrides SUPERVISOR.md discovery
+  snapshotMode?: SnapshotMode;
+  gitContext?: GitContextMode;  // repository state in the prompt: "stat" = status + diff stat, "diff" = also the changes
+  verify?: string[];         // commands that must pass before "done" is accepted
+  workspaceTools?: boolean;  // give the supervisor read-only repo tools
+  toolBudget?: number;       // max supervisor tool calls per analysis
+  budgets?: SupervisionBudgets;
+  delivery?: SteerDelivery;  // "approve": steers wait for the user's OK
+  rules?: SupervisorRule[];  // checked before the model, alongside .pi/supervisor-rules.json
+  guardrails?: GuardrailPolicy;  // default tool-call policy for every outcome
+  profiles?: Record<string, SensitivityProfile>;  // custom sensitivity levels (thresholds, cadence) by name
+  timeoutMs?: number;        // abort a supervisor call after this long
+  retries?: number;          // extra attempts per model on transient errors
+  fallbackModels?: WorkspaceModelConfig[];  // tried in order when the main model fails ("provider/modelId" in the file)
+  judges?: WorkspaceModelConfig[];  // models that must confirm "done" at the end of a run ("provider/modelId" in the file)
+  judgeRule?: JudgeRule;     // how their votes combine
+  escalationModel?: WorkspaceModelConfig;  // stronger model for "done", uncertain and stagnation calls ("provider/modelId" in the file)
+  escalationBand?: [number, number];       // primary confidence in [min, max] counts as uncertain
+}
+
+export interface ConfigIssue {
+  layer: Exclude<ConfigLayer, "default">;
+  key: string;               // "(file)" for problems with the file itself
+  message: string;
+}
+
+export interface LayeredConfig {
+  config: WorkspaceConfig;
+  sources: Partial<Record<keyof WorkspaceConfig, string>>;  // layer(s) each value came from, e.g. "project" or "global + project"
+  files: Record<Exclude<ConfigLayer, "default">, string>;
+  issues: ConfigIssue[];
+}
+
+export const DEFAULT_TIMEOUT_MS = 60_000;
+export const DEFAULT_RETRIES = 2;
+export const DEFAULT_ESCALATION_BAND: [number, number] = [0.4, 0.7];
+
+const DEFAULTS: WorkspaceConfig = {
+  sensitivity: DEFAULT_SENSITIVITY,
+  widget: true,
+  snapshotMode: "text",
+  gitContext: "off",
+  workspaceTools: false,
+  toolBudget: DEFAULT_TOOL_BUDGET,
+  delivery: "auto",
+  timeoutMs: DEFAULT_TIMEOUT_MS,
+  retries: DEFAULT_RETRIES,
+  judgeRule: "majority",
+  escalationBand: DEFAULT_ESCALATION_BAND,
+};
+
+const KNOWN_KEYS: (keyof WorkspaceConfig)[] = [
+  "provider", "modelId", "sensitivity", "widget", "promptPath", "snapshotMode", "gitContext", "verify", "workspaceTools",
+  "toolBudget", "budgets", "delivery", "rules", "guardrails", "profiles", "timeoutMs", "retries", "fallbackModels",
+  "judges", "judgeRule", "escalationModel", "escalationBand",
+];
+
+/** Keys merged field by field across layers instead of replaced. */
+const MERGED_KEYS = new Set<keyof WorkspaceConfig>(["budgets", "profiles"]);
+
+function configPath(layer: Exclude<ConfigLayer, "default">, cwd: string): string {
+  return layer === "global" ? join(GLOBAL_DIR, CONFIG_FILE) : join(cwd, PI_DIR, CONFIG_FILE);
+}
+
+/** Read the raw JSON object from a config file. Returns {} if absent; reports unreadable files. */
+function readConfigFile(path: string, onIssue?: (message: string) => void): Record<string, unknown> {
+  if (!existsSync(path)) return {};
   try {
-    const parsed = JSON.parse(readFileSync(configPath, "utf-8"));
-    if (typeof parsed.provider === "string" && typeof parsed.modelId === "string") {
-      return { provider: parsed.provider, modelId: parsed.modelId };
+    const parsed = JSON.parse(readFileSync(path, "utf-8"));
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) return parsed;
+    onIssue?.("must contain a JSON object");
+  } catch (err) {
+    onIssue?.(`invalid JSON — ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return {};
+}
+
+/** Validate one layer. Values of the wrong type are dropped and reported. */
+function parseConfig(raw: Record<string, unknown>, issue: (key: string, message: string) => void): WorkspaceConfig {
+  const config: WorkspaceConfig = {};
+  const string = (key: "provider" | "modelId" | "sensitivity" | "promptPath") => {
+    if (raw[key] === undefined) return;
+    if (typeof raw[key] === "string" && (raw[key] as string).trim()) config[key] = (raw[key] as string).trim();
+    else issue(key, "must be a non-empty string");
+  };
+  const boolean = (key: "widget" | "workspaceTools") => {
+    if (raw[key] === undefined) return;
+    if (typeof raw[key] === "boolean") config[key] = raw[key] as boolean;
+    else issue(key, "must be true or false");
+  };
+  const count = (key: "toolBudget" | "timeoutMs" | "retries", min: number) => {
+    if (raw[key] === undefined) return;
+    const n = raw[key];
+    if (typeof n === "number" && Number.isFinite(n) && n >= min) config[key] = Math.floor(n);
+    else issue(key, `must be a number ≥ ${min}`);
+  };
+  const oneOf = <K extends "snapshotMode" | "gitContext" | "delivery" | "judgeRule">(key: K, values: readonly WorkspaceConfig[K][]) => {
+    if (raw[key] === undefined) return;
+    if (values.includes(raw[key] as WorkspaceConfig[K])) config[key] = raw[key] as WorkspaceConfig[K];
+    else issue(key, `must be one of ${values.map((v) => JSON.stringify(v)).join(", ")}`);
+  };
+  const dropped = (key: string, total: number, kept: number, what: string) => {
+    if (kept < total) issue(key, `${total - kept} ${what} ignored`);
+  };
+
+  string("provider");
+  string("modelId");
+  string("sensitivity");
+  string("promptPath");
+  boolean("widget");
+  boolean("workspaceTools");
+  count("toolBudget", 0);
+  count("timeoutMs", 1);
+  count("retries", 0);
+  oneOf("snapshotMode", ["text", "tools"]);
+  oneOf("gitContext", ["off", "stat", "diff"]);
+  oneOf("delivery", ["auto", "approve"]);
+  oneOf("judgeRule", ["unanimous", "majority", "weighted"]);
+
+  if (raw.budgets !== undefined) {
+    config.budgets = parseBudgets(raw.budgets);
+    const total = raw.budgets && typeof raw.budgets === "object" ? Object.keys(raw.budgets).length : 1;
+    dropped("budgets", total, Object.keys(config.budgets).length, "entries (need positive maxRuns, maxSteers, maxMinutes or maxCost)");
+  }
+  if (raw.profiles !== undefined) {
+    config.profiles = parseProfiles(raw.profiles);
+    const total = raw.profiles && typeof raw.profiles === "object" ? Object.keys(raw.profiles).length : 1;
+    dropped("profiles", total, Object.keys(config.profiles).length, "profiles (names must be new, word characters only)");
+  }
+  if (raw.guardrails !== undefined) {
+    config.guardrails = parseGuardrails(raw.guardrails);
+    if (!raw.guardrails || typeof raw.guardrails !== "object") issue("guardrails", "must be an object");
+  }
+  if (raw.rules !== undefined) {
+    config.rules = parseRules(raw.rules);
+    const list = Array.isArray(raw.rules) ? raw.rules : (raw.rules as { rules?: unknown } | null)?.rules;
+    dropped("rules", Array.isArray(list) ? list.length : 1, config.rules.length, "rules (need an id and a valid match regex)");
+  }
+  for (const key of ["fallbackModels", "judges"] as const) {
+    if (raw[key] === undefined) continue;
+    const list = Array.isArray(raw[key]) ? raw[key] : [];
+    config[key] = list
+      .map((m) => (typeof m === "string" ? parseModelRef(m) : null))
+      .filter((m): m is WorkspaceModelConfig => m !== null);
+    dropped(key, Array.isArray(raw[key]) ? list.length : 1, config[key].length, 'entries (use "provider/modelId")');
+  }
+  if (raw.escalationModel !== undefined) {
+    const model = typeof raw.escalationModel === "string" ? parseModelRef(raw.escalationModel) : null;
+    if (model) config.escalationModel = model;
+    else issue("escalationModel", 'must be "provider/modelId"');
+  }
+  if (raw.escalationBand !== undefined) {
+    const band = raw.escalationBand;
+    if (Array.isArray(band) && band.length === 2 && band.every((n) => typeof n === "number" && n >= 0 && n <= 1) && band[0] <= band[1]) {
+      config.escalationBand = [band[0], band[1]];
+    } else {
+      issue("escalationBand", "must be [min, max] with 0 ≤ min ≤ max ≤ 1");
+    }
+  }
+  if (raw.verify !== undefined) {
+    const list = Array.isArray(raw.verify) ? raw.verify : [];
+    config.verify = list.filter((c): c is string => typeof c === "string" && c.trim().length > 0);
+    dropped("verify", Array.isArray(raw.verify) ? list.length : 1, config.verify.length, "commands (must be non-empty strings)");
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!KNOWN_KEYS.includes(key as keyof WorkspaceConfig)) issue(key, "unknown key");
+  }
+  return config;
+}
+
+/** Merge defaults, the global file and the project file, recording where each value came from. */
+export function loadLayeredConfig(cwd: string): LayeredConfig {
+  const files = { global: configPath("global", cwd), project: configPath("project", cwd) };
+  const issues: ConfigIssue[] = [];
+  const config: WorkspaceConfig = { ...DEFAULTS };
+  const sources: LayeredConfig["sources"] = {};
+  for (const key of Object.keys(DEFAULTS) as (keyof WorkspaceConfig)[]) sources[key] = "default";
+
+  for (const layer of ["global", "project"] as const) {
+    const raw = readConfigFile(files[layer], (message) => issues.push({ layer, key: "(file)", message }));
+    const parsed = parseConfig(raw, (key, message) => issues.push({ layer, key, message }));
+    for (const key of Object.keys(parsed) as (keyof WorkspaceConfig)[]) {
+      const previous = sources[key];
+      if (MERGED_KEYS.has(key) && previous && previous !== "default") {
+        (config as Record<string, unknown>)[key] = { ...(config[key] as object), ...(parsed[key] as object) };
+        sources[key] = `${previous} + ${layer}`;
+      } else {
+        (config as Record<string, unknown>)[key] = parsed[key];
+        sources[key] = layer;
+      }
     }
-  } catch {}
-  return null;
+  }
+
+  // A sensitivity may name a profile from either layer, so it is checked once both are merged
+  const profiles = listProfiles(config.profiles);
+  if (config.sensitivity && !profiles.some((p) => p.name === config.sensitivity)) {
+    const layer = sources.sensitivity === "global" ? "global" : "project";
+    issues.push({
+      layer,
+      key: "sensitivity",
+      message: `"${config.sensitivity}" is not a known profile (${profiles.map((p) => p.name).join(", ")})`,
+    });
+    config.sensitivity = DEFAULTS.sensitivity;
+    sources.sensitivity = "default";
+  }
+  return { config, sources, files, issues };
+}
+
+/** The effective config (defaults → global → project). Invalid values are skipped; see loadLayeredConfig for the issues. */
+export function loadWorkspaceConfig(cwd: string): WorkspaceConfig {
+  return loadLayeredConfig(cwd).config;
+}
+
+/** Split "provider/modelId". The model id may itself contain slashes. */
+function parseModelRef(ref: string): WorkspaceModelConfig | null {
+  const slash = ref.indexOf("/");
+  if (slash <= 0 || slash === ref.length - 1) return null;
+  return { provider: ref.slice(0, slash).trim(), modelId: ref.slice(slash + 1).trim() };
+}
+
+/** Configured supervisor model (global or project). Returns null if none is set. */
+export function loadWorkspaceModel(cwd: string): WorkspaceModelConfig | null {
+  const { provider, modelId } = loadWorkspaceConfig(cwd);
+  return provider && modelId ? { provider, modelId } : null;
 }
 
 /**
- * Write model config to <cwd>/.pi/supervisor-config.json.
- * Silently skips if the .pi/ directory does not exist.
- * Returns true when the file was written.
+ * Write values into the project config when <cwd>/.pi/ exists, otherwise into the global one,
+ * keeping any other keys already there. A file that does not parse is left alone rather than
+ * replaced. Returns the path written, or null on failure — `onError` says why.
  */
-export function saveWorkspaceModel(cwd: string, provider: string, modelId: string): boolean {
-  const piDir = join(cwd, PI_DIR);
-  if (!existsSync(piDir)) return false;
+export function saveConfigValues(
+  cwd: string,
+  values: Partial<Record<keyof WorkspaceConfig, unknown>>,
+  onError?: (message: string) => void
+): string | null {
+  const layer = existsSync(join(cwd, PI_DIR)) ? "project" : "global";
+  const path = configPath(layer, cwd);
+  let problem: string | undefined;
+  const existing = readConfigFile(path, (message) => { problem = message; });
+  if (problem) {
+    onError?.(`${path} ${problem}; fix it first — the file was not changed`);
+    return null;
+  }
   try {
-    writeFileSync(
-      join(piDir, CONFIG_FILE),
-      JSON.stringify({ provider, modelId }, null, 2) + "\n",
-      "utf-8"
-    );
-    return true;
-  } catch {
-    return false;
+    if (layer === "global") mkdirSync(GLOBAL_DIR, { recursive: true });
+    writeFileSync(path, JSON.stringify({ ...existing, ...values }, null, 2) + "\n", "utf-8");
+    return path;
+  } catch (err) {
+    onError?.(`could not write ${path} — ${err instanceof Error ? err.message : String(err)}`);
+    return null;
   }
 }
+
+/** Whether `path` is the global config file rather than a project one. */
+export function isGlobalConfigPath(path: string): boolean {
+  return path === join(GLOBAL_DIR, CONFIG_FILE);
+}
+
+/** Save the supervisor model. Returns the path written, or null on failure. */
+export function saveWorkspaceModel(
+  cwd: string,
+  provider: string,
+  modelId: string,
+  onError?: (message: string) => void
+): string | null {
+  return saveConfigValues(cwd, { provider, modelId }, onError);
+}
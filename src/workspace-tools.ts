@@ -0,0 +1,90 @@
+/**
+ * workspace-tools — read-only tools for the supervisor session.
+ *
+ * Opt-in via `"workspaceTools": true` in .pi/supervisor-config.json. The supervisor can then
+ * check the repository itself (read, grep, find, ls, git_diff) before deciding steer or done.
+ * All tools share one call budget per analysis; once it is spent, every further call returns
+ * a "decide now" message instead of running.
+ */
+
+import { execFile } from "node:child_process";
+import { createReadOnlyTools } from "@mariozechner/pi-coding-agent";
+import type { ToolDefinition } from "@mariozechner/pi-coding-agent";
+import { Type } from "@sinclair/typebox";
+
+export const DEFAULT_TOOL_BUDGET = 8;
+
+const GIT_TIMEOUT_MS = 15_000;
+const MAX_DIFF_CHARS = 20_000;
+
+type ToolResult = Awaited<ReturnType<ToolDefinition["execute"]>>;
+
+const text = (msg: string): ToolResult => ({ content: [{ type: "text", text: msg }], details: undefined });
+
+/** Names of the tools handed to the supervisor, for the prompt. */
+export const WORKSPACE_TOOL_NAMES = ["read", "grep", "find", "ls", "git_diff"];
+
+/**
+ * Build the supervisor's read-only tool set rooted at `cwd`.
+ * `maxCalls` is shared across all tools for the lifetime of the returned array — create a fresh set per analysis.
+ */
+export function createWorkspaceTools(cwd: string, maxCalls: number): ToolDefinition[] {
+  let remaining = maxCalls;
+  const withBudget = (run: () => Promise<ToolResult>): Promise<ToolResult> => {
+    if (remaining <= 0) {
+      return Promise.resolve(
+        text(`Tool budget exhausted (${maxCalls} calls). Decide now with the evidence you already have.`)
+      );
+    }
+    remaining--;
+    return run();
+  };
+
+  const readOnly: ToolDefinition[] = createReadOnlyTools(cwd).map((tool) => ({
+    name: tool.name,
+    label: tool.label,
+    description: tool.description,
+    parameters: tool.parameters,
+    execute: (toolCallId, params, signal, onUpdate) =>
+      withBudget(() => tool.execute(toolCallId, params, signal, onUpdate)),
+  }));
+
+  const gitDiff: ToolDefinition = {
+    name: "git_diff",
+    label: "Git Diff",
+    description:
+      "Show uncommitted changes in the repository (git diff against HEAD). " +
+      "Optionally limit to one path, or show only the file list with stat: true.",
+    parameters: Type.Object({
+      path: Type.Optional(Type.String({ description: "Limit the diff to this file or directory" })),
+      stat: Type.Optional(Type.Boolean({ description: "Only show changed files and line counts" })),
+    }),
+    execute: (_toolCallId, params, signal) =>
+      withBudget(async () => {
+        const { path, stat } = params as { path?: string; stat?: boolean };
+        const args = ["diff", "HEAD", ...(stat ? ["--stat"] : []), ...(path ? ["--", path] : [])];
+        const output = await runGit(cwd, args, signal);
+        if (output === null) return text("git diff failed — this may not be a git repository.");
+        if (!output.trim()) return text("No uncommitted changes.");
+        return text(
+          output.length <= MAX_DIFF_CHARS
+            ? output
+            : output.slice(0, MAX_DIFF_CHARS) + `\n… (truncated, ${output.length - MAX_DIFF_CHARS} more chars — narrow with path)`
+        );
+      }),
+  };
+
+  return [...readOnly, gitDiff];
+}
+
+/** Run git and return stdout, or null when git fails or is missing. */
+export function runGit(cwd: string, args: string[], signal?: AbortSignal): Promise<string | null> {
+  return new Promise((resolve) => {
+    execFile(
+      "git",
+      args,
+      { cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024, signal },
+      (err, stdout) => resolve(err ? null : stdout)
+    );
+  });
+}